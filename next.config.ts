@@ -1,8 +1,14 @@
 import type { NextConfig } from 'next';
 
+const basePath = '/Speedstein';
+
 const nextConfig: NextConfig = {
-  output: 'export',
-  basePath: '/Speedstein',
+  // Served by `next start` rather than exported statically: the /api routes
+  // proxy PageSpeed Insights with a server-side key and cache.
+  basePath,
+  env: {
+    NEXT_PUBLIC_BASE_PATH: basePath,
+  },
   images: {
     unoptimized: true,
   },
@@ -5,28 +5,65 @@ import { useSearchParams } from 'next/navigation';
 import UrlInput from '@/components/UrlInput';
 import ResultsDashboard from '@/components/ResultsDashboard';
 import ErrorDisplay from '@/components/ErrorDisplay';
-import { runSpeedTest } from '@/lib/api';
-import { saveToHistory } from '@/lib/storage';
-import type { SpeedTestResult, TestStatus } from '@/types';
+import { STRATEGIES, CATEGORIES } from '@/lib/api';
+import { requestSpeedTest, requestSpeedTests } from '@/lib/client';
+import { RUN_COUNTS, runMultiple } from '@/lib/multirun';
+import { getHistoryDriver } from '@/lib/history';
+import type { LighthouseCategory, SpeedTestResult, Strategy, TestStatus } from '@/types';
+
+function parseStrategies(param: string | null): Strategy[] {
+  if (param === 'both') return STRATEGIES;
+  if (param === 'desktop') return ['desktop'];
+  return ['mobile'];
+}
+
+function parseCategories(param: string | null): LighthouseCategory[] {
+  return param === 'all' ? CATEGORIES : ['performance'];
+}
+
+function parseRuns(param: string | null): number {
+  const runs = Number(param);
+  return RUN_COUNTS.includes(runs) ? runs : 1;
+}
 
 export default function HomeContent() {
   const searchParams = useSearchParams();
   const [status, setStatus] = useState<TestStatus>('idle');
-  const [result, setResult] = useState<SpeedTestResult | null>(null);
+  const [results, setResults] = useState<SpeedTestResult[]>([]);
   const [error, setError] = useState<string>('');
-  const [lastUrl, setLastUrl] = useState<string>('');
+  const [progress, setProgress] = useState({ completed: 0, total: 0 });
+  const [lastRun, setLastRun] = useState<{
+    url: string;
+    strategies: Strategy[];
+    categories: LighthouseCategory[];
+    runs: number;
+  } | null>(null);
 
-  const handleTest = useCallback(async (url: string) => {
+  const handleTest = useCallback(async (url: string, strategies: Strategy[], categories: LighthouseCategory[], runs = 1) => {
     setStatus('loading');
-    setResult(null);
+    setResults([]);
     setError('');
-    setLastUrl(url);
+    setProgress({ completed: 0, total: runs * strategies.length });
+    setLastRun({ url, strategies, categories, runs });
 
     try {
-      const data = await runSpeedTest(url);
-      setResult(data);
+      const completed: SpeedTestResult[] = [];
+      const data = runs > 1
+        ? await Promise.all(strategies.map((strategy) => runMultiple(
+          () => requestSpeedTest(url, { strategy, categories, fresh: true }),
+          runs,
+          (result) => {
+            completed.push(result);
+            setProgress((p) => ({ ...p, completed: p.completed + 1 }));
+          },
+        )))
+        : await requestSpeedTests(url, strategies, { categories });
+      setResults(data);
       setStatus('success');
-      saveToHistory(data);
+      // Every run is kept so runs.runIds resolve; the median is saved as the aggregate instead
+      const history = await getHistoryDriver();
+      const others = completed.filter((r) => !data.some((d) => d.id === r.id));
+      await Promise.all([...others, ...data].map((r) => history.save(r))).catch(() => undefined);
     } catch (err) {
       const message = err instanceof Error ? err.message : 'An unexpected error occurred';
       setError(message);
@@ -35,24 +72,29 @@ export default function HomeContent() {
   }, []);
 
   const handleRetry = useCallback(() => {
-    if (lastUrl) handleTest(lastUrl);
-  }, [lastUrl, handleTest]);
+    if (lastRun) handleTest(lastRun.url, lastRun.strategies, lastRun.categories, lastRun.runs);
+  }, [lastRun, handleTest]);
 
   // Auto-test from URL params
   useEffect(() => {
     const urlParam = searchParams.get('url');
     if (urlParam && status === 'idle') {
-      handleTest(urlParam);
+      handleTest(
+        urlParam,
+        parseStrategies(searchParams.get('strategy')),
+        parseCategories(searchParams.get('categories')),
+        parseRuns(searchParams.get('runs')),
+      );
     }
   }, [searchParams, status, handleTest]);
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 pb-12">
-      <UrlInput onSubmit={handleTest} isLoading={status === 'loading'} />
+      <UrlInput onSubmit={handleTest} isLoading={status === 'loading'} progress={progress} />
 
       {status === 'error' && <ErrorDisplay message={error} onRetry={handleRetry} />}
 
-      {status === 'success' && result && <ResultsDashboard result={result} />}
+      {status === 'success' && results.length > 0 && <ResultsDashboard results={results} />}
     </div>
   );
 }
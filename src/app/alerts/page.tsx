@@ -0,0 +1,287 @@
+'use client';
+
+import { useState, useEffect, useCallback, type FormEvent } from 'react';
+import { Bell, BellOff, Loader2, Plus, Send, Trash2, Webhook, CheckCircle2, XCircle } from 'lucide-react';
+import {
+  fetchAlertRules, createAlertRule, updateAlertRule, deleteAlertRule, sendTestAlert, fetchAlertDeliveries,
+} from '@/lib/client';
+import { ALERT_VITALS, WEBHOOK_FORMATS, describeCondition } from '@/lib/alerts';
+import { timeAgo } from '@/lib/utils';
+import ErrorDisplay from '@/components/ErrorDisplay';
+import type { AlertCondition, AlertDelivery, AlertRule, CoreWebVitals, WebhookFormat } from '@/types';
+
+const inputClass = 'px-3 py-2 text-sm rounded-xl bg-background border border-border outline-none focus:border-teal/40 placeholder:text-muted/50';
+
+export default function AlertsPage() {
+  const [rules, setRules] = useState<AlertRule[] | null>(null);
+  const [deliveries, setDeliveries] = useState<AlertDelivery[]>([]);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [testingId, setTestingId] = useState<string | null>(null);
+
+  const [name, setName] = useState('');
+  const [pattern, setPattern] = useState('');
+  const [conditionType, setConditionType] = useState<AlertCondition['type']>('score-drop');
+  const [points, setPoints] = useState(10);
+  const [metric, setMetric] = useState<keyof CoreWebVitals>('lcp');
+  const [rating, setRating] = useState<'needs-improvement' | 'poor'>('poor');
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [format, setFormat] = useState<WebhookFormat>('json');
+
+  const refresh = useCallback(() => {
+    fetchAlertRules()
+      .then(setRules)
+      .catch((err: Error) => setError(err.message));
+    fetchAlertDeliveries()
+      .then(setDeliveries)
+      .catch(() => undefined);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !webhookUrl.trim() || saving) return;
+    setSaving(true);
+    setError('');
+    try {
+      await createAlertRule({
+        name: name.trim(),
+        pattern: pattern.trim() || '*',
+        condition: conditionType === 'score-drop' ? { type: 'score-drop', points } : { type: 'rating', metric, rating },
+        webhookUrl: webhookUrl.trim(),
+        format,
+      });
+      setName('');
+      setPattern('');
+      refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not create alert rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: AlertRule) => {
+    await updateAlertRule(rule.id, { enabled: !rule.enabled });
+    refresh();
+  };
+
+  const handleDelete = async (rule: AlertRule) => {
+    if (!confirm(`Delete the alert rule "${rule.name}"?`)) return;
+    await deleteAlertRule(rule.id);
+    refresh();
+  };
+
+  const handleTest = async (rule: AlertRule) => {
+    setTestingId(rule.id);
+    try {
+      await sendTestAlert(rule.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not send test alert');
+    } finally {
+      setTestingId(null);
+      refresh();
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 py-12 space-y-8">
+      <div className="flex items-center gap-3">
+        <Bell className="w-6 h-6 text-teal" />
+        <h1 className="text-2xl font-bold">Alerts</h1>
+        {rules && <span className="text-sm text-muted">({rules.length} rules)</span>}
+      </div>
+
+      <p className="text-sm text-muted">
+        Monitor runs are compared with the previous run of the same URL. When a rule matches, its webhook receives a POST,
+        retried with backoff if the receiver is down.
+      </p>
+
+      {/* New rule */}
+      <form onSubmit={handleCreate} className="rounded-2xl border border-border bg-surface p-4 space-y-3">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Rule name — e.g. Homepage regressions"
+            className={inputClass}
+            disabled={saving}
+          />
+          <input
+            type="text"
+            value={pattern}
+            onChange={(e) => setPattern(e.target.value)}
+            placeholder="URL pattern — e.g. example.com/* (default: every URL)"
+            className={`${inputClass} font-mono`}
+            disabled={saving}
+          />
+        </div>
+        <div className="flex items-center gap-3 flex-wrap text-sm">
+          <select
+            value={conditionType}
+            onChange={(e) => setConditionType(e.target.value as AlertCondition['type'])}
+            className={inputClass}
+          >
+            <option value="score-drop">Score drops by more than</option>
+            <option value="rating">Vital rating becomes</option>
+          </select>
+          {conditionType === 'score-drop' ? (
+            <>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={points}
+                onChange={(e) => setPoints(Number(e.target.value))}
+                className={`${inputClass} w-20 tabular-nums`}
+              />
+              <span className="text-muted">points</span>
+            </>
+          ) : (
+            <>
+              <select value={metric} onChange={(e) => setMetric(e.target.value as keyof CoreWebVitals)} className={inputClass}>
+                {ALERT_VITALS.map((v) => <option key={v.key} value={v.key}>{v.label}</option>)}
+              </select>
+              <span className="text-muted">rated</span>
+              <select value={rating} onChange={(e) => setRating(e.target.value as 'needs-improvement' | 'poor')} className={inputClass}>
+                <option value="poor">Poor</option>
+                <option value="needs-improvement">Needs improvement or worse</option>
+              </select>
+            </>
+          )}
+        </div>
+        <div className="flex items-center gap-3 flex-wrap">
+          <div className="flex-1 min-w-64 flex items-center bg-background border border-border rounded-xl overflow-hidden focus-within:border-teal/40 transition-colors">
+            <Webhook className="w-4 h-4 text-muted ml-3 shrink-0" />
+            <input
+              type="text"
+              value={webhookUrl}
+              onChange={(e) => setWebhookUrl(e.target.value)}
+              placeholder="https://hooks.slack.com/services/…"
+              className="flex-1 bg-transparent px-3 py-2 text-sm font-mono outline-none placeholder:text-muted/50"
+              disabled={saving}
+            />
+          </div>
+          <select value={format} onChange={(e) => setFormat(e.target.value as WebhookFormat)} className={inputClass}>
+            {WEBHOOK_FORMATS.map((f) => <option key={f.value} value={f.value}>{f.label} payload</option>)}
+          </select>
+          <button
+            type="submit"
+            disabled={!name.trim() || !webhookUrl.trim() || saving}
+            className="px-4 py-2 bg-teal hover:bg-teal-dim text-background font-semibold rounded-xl transition-colors disabled:opacity-40 disabled:cursor-not-allowed flex items-center gap-2"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            Add Rule
+          </button>
+        </div>
+      </form>
+
+      {error && <ErrorDisplay message={error} />}
+
+      {rules === null ? (
+        <div className="space-y-4">
+          {[...Array(2)].map((_, i) => (
+            <div key={i} className="h-16 rounded-xl bg-surface animate-pulse" />
+          ))}
+        </div>
+      ) : rules.length === 0 ? (
+        <div className="rounded-2xl border border-border bg-surface p-12 text-center space-y-2">
+          <Bell className="w-12 h-12 text-muted mx-auto" />
+          <h2 className="text-lg font-semibold">No alert rules yet</h2>
+          <p className="text-muted">Add a rule above to be notified when a monitored page regresses.</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {rules.map((rule) => (
+            <div key={rule.id} className={`rounded-xl border border-border bg-surface px-4 py-3 flex items-center gap-4 ${rule.enabled ? '' : 'opacity-60'}`}>
+              <div className="flex-1 min-w-0">
+                <div className="font-medium text-sm">{rule.name}</div>
+                <div className="flex items-center gap-3 text-xs text-muted mt-0.5 flex-wrap">
+                  <span>{describeCondition(rule.condition)}</span>
+                  <span className="font-mono text-teal">{rule.pattern}</span>
+                  <span className="font-mono truncate max-w-xs" title={rule.webhookUrl}>{rule.webhookUrl}</span>
+                  <span className="uppercase">{rule.format}</span>
+                  {!rule.enabled && <span className="text-yellow">Disabled</span>}
+                </div>
+              </div>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => handleTest(rule)}
+                  disabled={testingId !== null}
+                  title="Send a test alert"
+                  className="p-1.5 rounded-md hover:bg-surface-2 text-muted hover:text-foreground transition-colors disabled:opacity-40"
+                >
+                  {testingId === rule.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                </button>
+                <button
+                  onClick={() => handleToggle(rule)}
+                  title={rule.enabled ? 'Disable' : 'Enable'}
+                  className="p-1.5 rounded-md hover:bg-surface-2 text-muted hover:text-foreground transition-colors"
+                >
+                  {rule.enabled ? <BellOff className="w-4 h-4" /> : <Bell className="w-4 h-4" />}
+                </button>
+                <button
+                  onClick={() => handleDelete(rule)}
+                  title="Delete"
+                  className="p-1.5 rounded-md hover:bg-red/10 text-muted hover:text-red transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Delivery log */}
+      {deliveries.length > 0 && (
+        <div className="space-y-3">
+          <h2 className="text-lg font-semibold">Delivery Log</h2>
+          <div className="rounded-xl border border-border bg-surface overflow-x-auto max-h-96 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-border text-xs text-muted uppercase">
+                  <th className="px-4 py-2 text-left font-medium">Sent</th>
+                  <th className="px-4 py-2 text-left font-medium">Alert</th>
+                  <th className="px-4 py-2 text-right font-medium">Attempts</th>
+                  <th className="px-4 py-2 text-right font-medium">Result</th>
+                </tr>
+              </thead>
+              <tbody>
+                {deliveries.map((d) => (
+                  <tr key={d.id} className="border-b border-border/30 last:border-0 align-top">
+                    <td className="px-4 py-2 text-muted whitespace-nowrap" title={new Date(d.deliveredAt).toLocaleString()}>
+                      {timeAgo(d.deliveredAt)}
+                    </td>
+                    <td className="px-4 py-2">
+                      <div className="font-medium">{d.alert.ruleName}</div>
+                      <div className="text-xs text-muted">{d.alert.message}</div>
+                    </td>
+                    <td className="px-4 py-2 text-right tabular-nums">{d.attempts}</td>
+                    <td className="px-4 py-2 text-right whitespace-nowrap">
+                      {d.status === 'delivered' ? (
+                        <span className="inline-flex items-center gap-1 text-green">
+                          <CheckCircle2 className="w-3.5 h-3.5" />
+                          {d.statusCode}
+                        </span>
+                      ) : (
+                        <span className="inline-flex items-center gap-1 text-red" title={d.error ?? undefined}>
+                          <XCircle className="w-3.5 h-3.5" />
+                          {d.statusCode ?? 'Failed'}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { updateAlertRule, deleteAlertRule } from '@/lib/alerts-db';
+import type { AlertRule } from '@/types';
+
+interface Context {
+  params: Promise<{ id: string }>;
+}
+
+function notFound() {
+  return NextResponse.json({ error: { message: 'Alert rule not found' } }, { status: 404 });
+}
+
+export async function PATCH(request: NextRequest, { params }: Context) {
+  const { id } = await params;
+  const body = (await request.json().catch(() => ({}))) as Partial<Pick<AlertRule, 'enabled'>>;
+
+  const patch: Partial<AlertRule> = {};
+  if (typeof body.enabled === 'boolean') patch.enabled = body.enabled;
+
+  const rule = await updateAlertRule(id, patch);
+  if (!rule) return notFound();
+  return NextResponse.json(rule);
+}
+
+export async function DELETE(_request: NextRequest, { params }: Context) {
+  const { id } = await params;
+  if (!(await deleteAlertRule(id))) return notFound();
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,16 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getAlertRule, sendAlert } from '@/lib/alerts-db';
+import { testAlert } from '@/lib/alerts';
+
+interface Context {
+  params: Promise<{ id: string }>;
+}
+
+// Sends a sample alert to the rule's webhook and logs it like a real one. One attempt
+// only, so a dead webhook answers within the timeout instead of after every backoff.
+export async function POST(_request: NextRequest, { params }: Context) {
+  const { id } = await params;
+  const rule = await getAlertRule(id);
+  if (!rule) return NextResponse.json({ error: { message: 'Alert rule not found' } }, { status: 404 });
+  return NextResponse.json(await sendAlert(testAlert(rule), rule, { retries: 0 }));
+}
@@ -0,0 +1,6 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { listDeliveries } from '@/lib/alerts-db';
+
+export async function GET(request: NextRequest) {
+  return NextResponse.json(await listDeliveries(request.nextUrl.searchParams.get('rule') ?? undefined));
+}
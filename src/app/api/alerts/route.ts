@@ -0,0 +1,20 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { listAlertRules, createAlertRule } from '@/lib/alerts-db';
+import { validateAlertRuleInput, type AlertRuleInput } from '@/lib/alerts';
+
+export async function GET() {
+  return NextResponse.json(await listAlertRules());
+}
+
+export async function POST(request: NextRequest) {
+  const body = (await request.json().catch(() => ({}))) as Partial<AlertRuleInput>;
+
+  let input: AlertRuleInput;
+  try {
+    input = validateAlertRuleInput(body);
+  } catch (err) {
+    return NextResponse.json({ error: { message: (err as Error).message } }, { status: 400 });
+  }
+
+  return NextResponse.json(await createAlertRule(input), { status: 201 });
+}
@@ -0,0 +1,24 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getHistoryResult, deleteHistoryResult } from '@/lib/history-db';
+
+interface Context {
+  params: Promise<{ id: string }>;
+}
+
+function notFound() {
+  return NextResponse.json({ error: { message: 'Result not found' } }, { status: 404 });
+}
+
+export async function GET(_request: NextRequest, { params }: Context) {
+  const { id } = await params;
+  if (!/^[\w-]+$/.test(id)) return notFound();
+  const result = await getHistoryResult(id);
+  if (!result) return notFound();
+  return NextResponse.json(result);
+}
+
+export async function DELETE(_request: NextRequest, { params }: Context) {
+  const { id } = await params;
+  if (!/^[\w-]+$/.test(id) || !(await deleteHistoryResult(id))) return notFound();
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,40 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { listHistory, saveHistoryResult, clearHistory } from '@/lib/history-db';
+import { validateHistoryEntry } from '@/lib/validate';
+import type { SpeedTestResult, Strategy } from '@/types';
+
+function badRequest(message: string) {
+  return NextResponse.json({ error: { message } }, { status: 400 });
+}
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const strategy = params.get('strategy');
+  if (strategy && strategy !== 'mobile' && strategy !== 'desktop') {
+    return badRequest(`Unknown strategy "${strategy}"`);
+  }
+
+  return NextResponse.json(await listHistory({
+    url: params.get('url') ?? undefined,
+    strategy: (strategy as Strategy) ?? undefined,
+    page: params.has('page') ? Number(params.get('page')) || 1 : undefined,
+    pageSize: params.has('pageSize') ? Math.min(Number(params.get('pageSize')) || 20, 500) : undefined,
+  }));
+}
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  try {
+    validateHistoryEntry(body);
+  } catch (err) {
+    return badRequest((err as Error).message);
+  }
+
+  await saveHistoryResult(body as SpeedTestResult);
+  return new NextResponse(null, { status: 204 });
+}
+
+export async function DELETE() {
+  await clearHistory();
+  return new NextResponse(null, { status: 204 });
+}
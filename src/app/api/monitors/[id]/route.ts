@@ -0,0 +1,51 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getMonitor, updateMonitor, deleteMonitor, getMonitorRuns, MONITOR_INTERVALS } from '@/lib/monitors';
+import type { Monitor } from '@/types';
+
+interface Context {
+  params: Promise<{ id: string }>;
+}
+
+function notFound() {
+  return NextResponse.json({ error: { message: 'Monitor not found' } }, { status: 404 });
+}
+
+export async function GET(request: NextRequest, { params }: Context) {
+  const { id } = await params;
+  const monitor = await getMonitor(id);
+  if (!monitor) return notFound();
+
+  const search = request.nextUrl.searchParams;
+  const runs = await getMonitorRuns(id, {
+    page: search.has('page') ? Number(search.get('page')) || 1 : undefined,
+    pageSize: search.has('pageSize') ? Math.min(Number(search.get('pageSize')) || 20, 500) : undefined,
+  });
+  return NextResponse.json({ monitor, runs });
+}
+
+export async function PATCH(request: NextRequest, { params }: Context) {
+  const { id } = await params;
+  const body = (await request.json().catch(() => ({}))) as Partial<Pick<Monitor, 'paused' | 'intervalMinutes'>>;
+
+  const patch: Partial<Monitor> = {};
+  if (typeof body.paused === 'boolean') patch.paused = body.paused;
+  if (body.intervalMinutes !== undefined) {
+    if (!MONITOR_INTERVALS.includes(body.intervalMinutes)) {
+      return NextResponse.json(
+        { error: { message: `Interval must be one of ${MONITOR_INTERVALS.join(', ')} minutes` } },
+        { status: 400 },
+      );
+    }
+    patch.intervalMinutes = body.intervalMinutes;
+  }
+
+  const monitor = await updateMonitor(id, patch);
+  if (!monitor) return notFound();
+  return NextResponse.json(monitor);
+}
+
+export async function DELETE(_request: NextRequest, { params }: Context) {
+  const { id } = await params;
+  if (!(await deleteMonitor(id))) return notFound();
+  return new NextResponse(null, { status: 204 });
+}
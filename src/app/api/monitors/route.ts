@@ -0,0 +1,19 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { listMonitors, createMonitor, validateMonitorInput, type MonitorInput } from '@/lib/monitors';
+
+export async function GET() {
+  return NextResponse.json(await listMonitors());
+}
+
+export async function POST(request: NextRequest) {
+  const body = (await request.json().catch(() => ({}))) as Partial<MonitorInput>;
+
+  let input: MonitorInput;
+  try {
+    input = validateMonitorInput(body);
+  } catch (err) {
+    return NextResponse.json({ error: { message: (err as Error).message } }, { status: 400 });
+  }
+
+  return NextResponse.json(await createMonitor(input), { status: 201 });
+}
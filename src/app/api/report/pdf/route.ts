@@ -0,0 +1,25 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { generatePdfReport, reportHost } from '@/lib/pdf';
+import { validateSpeedTestResult } from '@/lib/validate';
+import type { SpeedTestResult } from '@/types';
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+
+  let result: SpeedTestResult;
+  try {
+    result = validateSpeedTestResult(body);
+  } catch (err) {
+    return NextResponse.json({ error: { message: (err as Error).message } }, { status: 400 });
+  }
+
+  const pdf = await generatePdfReport(result);
+  const host = reportHost(result.url).replace(/[^\w.-]/g, '_');
+
+  return new NextResponse(Buffer.from(pdf), {
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="speedstein-${host}-${result.timestamp}.pdf"`,
+    },
+  });
+}
@@ -0,0 +1,29 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { crawlSitemap, selectPages, SitemapError } from '@/lib/sitemap';
+import { BlockedUrlError } from '@/lib/network';
+
+function errorResponse(message: string, status: number) {
+  return NextResponse.json({ error: { message } }, { status });
+}
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const url = params.get('url');
+  if (!url) return errorResponse('A url parameter is required', 400);
+
+  const max = params.get('max') ? Number(params.get('max')) : undefined;
+  if (max !== undefined && (!Number.isInteger(max) || max < 1)) {
+    return errorResponse('max must be a positive integer', 400);
+  }
+  const sample = params.get('sample') === 'spread' ? 'spread' : 'first';
+
+  try {
+    const crawl = await crawlSitemap(url);
+    const urls = selectPages(crawl.urls, { pathPrefix: params.get('prefix') ?? undefined, maxCount: max, sample });
+    return NextResponse.json({ urls, total: crawl.urls.length, sitemaps: crawl.sitemaps, errors: crawl.errors });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Could not read sitemap';
+    if (err instanceof BlockedUrlError) return errorResponse(message, 403);
+    return errorResponse(message, err instanceof SitemapError ? 502 : 400);
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSnapshot, deleteSnapshot, isSnapshotId } from '@/lib/snapshots';
+
+interface Context {
+  params: Promise<{ id: string }>;
+}
+
+function notFound() {
+  return NextResponse.json({ error: { message: 'Snapshot not found or expired' } }, { status: 404 });
+}
+
+export async function GET(_request: NextRequest, { params }: Context) {
+  const { id } = await params;
+  if (!isSnapshotId(id)) return notFound();
+  const snapshot = await getSnapshot(id);
+  if (!snapshot) return notFound();
+  return NextResponse.json(snapshot);
+}
+
+export async function DELETE(request: NextRequest, { params }: Context) {
+  const { id } = await params;
+  if (!isSnapshotId(id)) return notFound();
+
+  const outcome = await deleteSnapshot(id, request.headers.get('x-delete-token') ?? '');
+  if (outcome === 'not-found') return notFound();
+  if (outcome === 'forbidden') {
+    return NextResponse.json({ error: { message: 'Invalid delete token' } }, { status: 403 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,31 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { createSnapshot } from '@/lib/snapshots';
+import { validateSpeedTestResult } from '@/lib/validate';
+import type { SpeedTestResult } from '@/types';
+
+export async function POST(request: NextRequest) {
+  const body = ((await request.json().catch(() => null)) ?? {}) as {
+    result?: unknown;
+    expiresIn?: number | null;
+    firstPartyDomains?: unknown;
+  };
+  let result: SpeedTestResult;
+  try {
+    result = validateSpeedTestResult(body.result);
+  } catch (err) {
+    return NextResponse.json({ error: { message: (err as Error).message } }, { status: 400 });
+  }
+
+  const domains = body.firstPartyDomains ?? [];
+  if (!Array.isArray(domains) || domains.length > 50 || domains.some((d) => typeof d !== 'string' || d.length > 253)) {
+    return NextResponse.json({ error: { message: 'firstPartyDomains must be a list of domains' } }, { status: 400 });
+  }
+
+  const expiresIn = typeof body.expiresIn === 'number' && body.expiresIn > 0 ? body.expiresIn : null;
+  const snapshot = await createSnapshot(result, expiresIn, domains);
+
+  return NextResponse.json(
+    { id: snapshot.id, url: result.url, deleteToken: snapshot.deleteToken, expiresAt: snapshot.expiresAt },
+    { status: 201 },
+  );
+}
@@ -0,0 +1,66 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { runSpeedTest, normalizeUrl, createResultId, CATEGORIES, SpeedTestError } from '@/lib/api';
+import { createTtlCache } from '@/lib/cache';
+import { getPsiConfig } from '@/lib/config';
+import type { LighthouseCategory, SpeedTestResult, Strategy } from '@/types';
+
+const config = getPsiConfig();
+
+// Promises are cached so concurrent requests for the same page share one PSI call
+const cache = createTtlCache<Promise<SpeedTestResult>>(config.cacheTtlMs);
+
+function errorResponse(message: string, status: number) {
+  // Same shape as PSI errors so clients can parse both the same way
+  return NextResponse.json({ error: { message } }, { status });
+}
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+
+  let url: string;
+  try {
+    url = normalizeUrl(params.get('url') ?? '');
+  } catch {
+    return errorResponse('A valid url parameter is required', 400);
+  }
+
+  const strategyParam = params.get('strategy') ?? 'mobile';
+  if (strategyParam !== 'mobile' && strategyParam !== 'desktop') {
+    return errorResponse(`Unknown strategy "${strategyParam}"`, 400);
+  }
+  const strategy: Strategy = strategyParam;
+
+  const categories = params.getAll('category') as LighthouseCategory[];
+  const unknown = categories.find((c) => !CATEGORIES.includes(c));
+  if (unknown) {
+    return errorResponse(`Unknown category "${unknown}"`, 400);
+  }
+
+  // Performance is always fetched, so asking for it explicitly shares the default entry
+  const key = `${strategy}:${CATEGORIES.filter((c) => c === 'performance' || categories.includes(c)).join(',')}:${url}`;
+  // Multi-run tests need independent runs, so they skip cached results
+  let pending = params.get('fresh') === '1' ? undefined : cache.get(key);
+  const hit = pending !== undefined;
+
+  if (!pending) {
+    pending = runSpeedTest(url, {
+      strategy,
+      categories,
+      apiKey: config.apiKey,
+      endpoint: config.endpoint,
+    });
+    cache.set(key, pending);
+  }
+
+  try {
+    const result = await pending;
+    // Clients save every response to history, so a hit must not reuse the first response's id
+    const body = hit ? { ...result, id: createResultId(), timestamp: Date.now() } : result;
+    return NextResponse.json(body, { headers: { 'X-Cache': hit ? 'HIT' : 'MISS' } });
+  } catch (err) {
+    cache.delete(key);
+    const message = err instanceof Error ? err.message : 'Analysis failed';
+    const status = err instanceof SpeedTestError && err.status && err.status >= 400 ? err.status : 502;
+    return errorResponse(message, status);
+  }
+}
@@ -0,0 +1,230 @@
+'use client';
+
+import { useRef, useState, type ChangeEvent, type FormEvent } from 'react';
+import { ListOrdered, Play, Square, FileUp, Smartphone, Monitor, Map as MapIcon, Loader2 } from 'lucide-react';
+import BatchTable from '@/components/BatchTable';
+import { parseUrlList, runBatch } from '@/lib/batch';
+import { fetchSitemapPages, requestSpeedTest } from '@/lib/client';
+import { getHistoryDriver } from '@/lib/history';
+import type { BatchItem, Strategy } from '@/types';
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+const inputClass = 'w-full px-3 py-2 text-sm rounded-lg bg-background border border-border outline-none focus:border-teal/40 placeholder:text-muted/50 disabled:opacity-60';
+
+export default function BatchPage() {
+  const [text, setText] = useState('');
+  const [strategy, setStrategy] = useState<Strategy>('mobile');
+  const [concurrency, setConcurrency] = useState(2);
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [running, setRunning] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const [sitemapUrl, setSitemapUrl] = useState('');
+  const [prefix, setPrefix] = useState('');
+  const [maxCount, setMaxCount] = useState('25');
+  const [spread, setSpread] = useState(false);
+  const [crawling, setCrawling] = useState(false);
+  const [crawlNote, setCrawlNote] = useState<{ text: string; error: boolean } | null>(null);
+
+  const parsed = parseUrlList(text);
+  const finished = items.filter((i) => i.status === 'done' || i.status === 'failed' || i.status === 'cancelled').length;
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const content = await file.text();
+    // Appends, so several files can be combined into one batch
+    setText((current) => (current.trim() ? `${current.trim()}\n${content}` : content));
+  };
+
+  const handleCrawl = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!sitemapUrl.trim() || crawling) return;
+    setCrawling(true);
+    setCrawlNote(null);
+    try {
+      const pages = await fetchSitemapPages(sitemapUrl.trim(), {
+        prefix: prefix.trim() || undefined,
+        max: Number(maxCount) || undefined,
+        sample: spread ? 'spread' : 'first',
+      });
+      setText(pages.urls.join('\n'));
+      const skipped = pages.errors.length > 0 ? `, ${pages.errors.length} unreadable` : '';
+      setCrawlNote({
+        text: `Selected ${pages.urls.length} of ${pages.total} pages from ${pages.sitemaps.length} sitemaps${skipped}`,
+        error: false,
+      });
+    } catch (err) {
+      setCrawlNote({ text: err instanceof Error ? err.message : 'Could not read sitemap', error: true });
+    } finally {
+      setCrawling(false);
+    }
+  };
+
+  const handleStart = async () => {
+    if (parsed.urls.length === 0 || running) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    setItems(parsed.urls.map((url) => ({ url, status: 'queued', attempts: 0, result: null, error: null })));
+
+    const history = await getHistoryDriver();
+    await runBatch(
+      parsed.urls,
+      async (url) => {
+        const result = await requestSpeedTest(url, { strategy });
+        history.save(result).catch(() => {});
+        return result;
+      },
+      {
+        concurrency,
+        signal: controller.signal,
+        onUpdate: (index, item) => setItems((prev) => prev.map((p, i) => (i === index ? item : p))),
+      },
+    );
+    setRunning(false);
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 py-12 space-y-8">
+      <div className="flex items-center gap-3">
+        <ListOrdered className="w-6 h-6 text-teal" />
+        <h1 className="text-2xl font-bold">Batch Test</h1>
+      </div>
+
+      <form onSubmit={handleCrawl} className="rounded-2xl border border-border bg-surface p-4 space-y-3">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <MapIcon className="w-4 h-4 text-muted" />
+          Discover pages from a sitemap
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-[1fr_10rem_6rem_auto] gap-2">
+          <input
+            type="text"
+            value={sitemapUrl}
+            onChange={(e) => setSitemapUrl(e.target.value)}
+            disabled={running || crawling}
+            placeholder="example.com/sitemap.xml"
+            className={`${inputClass} font-mono`}
+          />
+          <input
+            type="text"
+            value={prefix}
+            onChange={(e) => setPrefix(e.target.value)}
+            disabled={running || crawling}
+            placeholder="Path prefix, e.g. /blog"
+            className={inputClass}
+          />
+          <input
+            type="number"
+            min={1}
+            value={maxCount}
+            onChange={(e) => setMaxCount(e.target.value)}
+            disabled={running || crawling}
+            placeholder="Max"
+            title="Maximum number of pages"
+            className={inputClass}
+          />
+          <button
+            type="submit"
+            disabled={!sitemapUrl.trim() || running || crawling}
+            className="flex items-center justify-center gap-2 px-4 py-2 text-sm rounded-lg border border-border hover:bg-surface-2 transition-colors disabled:opacity-40"
+          >
+            {crawling ? <Loader2 className="w-4 h-4 animate-spin" /> : <MapIcon className="w-4 h-4" />}
+            Load pages
+          </button>
+        </div>
+        <div className="flex items-center gap-4 text-xs text-muted flex-wrap">
+          <label className="flex items-center gap-1.5">
+            <input type="checkbox" checked={spread} onChange={(e) => setSpread(e.target.checked)} className="accent-teal" />
+            Sample evenly across the sitemap instead of taking the first pages
+          </label>
+          {crawlNote && <span className={crawlNote.error ? 'text-red' : ''}>{crawlNote.text}</span>}
+        </div>
+      </form>
+
+      <div className="rounded-2xl border border-border bg-surface p-4 space-y-3">
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          disabled={running}
+          rows={8}
+          placeholder={'One URL per line\nexample.com\nexample.com/pricing'}
+          className="w-full px-3 py-2 text-sm font-mono rounded-lg bg-background border border-border outline-none focus:border-teal/40 placeholder:text-muted/50 disabled:opacity-60"
+        />
+        <div className="flex items-center gap-3 flex-wrap">
+          <label className={`flex items-center gap-2 px-3 py-1.5 text-sm rounded-lg border border-border transition-colors ${running ? 'opacity-40' : 'cursor-pointer hover:bg-surface-2'}`}>
+            <FileUp className="w-4 h-4" />
+            Load file
+            <input type="file" accept=".txt,.csv,text/plain,text/csv" onChange={handleFile} disabled={running} className="hidden" />
+          </label>
+          <div className="inline-flex items-center gap-1 p-1 rounded-lg bg-background border border-border">
+            {(['mobile', 'desktop'] as Strategy[]).map((s) => (
+              <button
+                key={s}
+                type="button"
+                onClick={() => setStrategy(s)}
+                disabled={running}
+                className={`flex items-center gap-1.5 px-2.5 py-1 text-xs rounded-md capitalize transition-colors ${
+                  strategy === s ? 'bg-teal/10 text-teal' : 'text-muted hover:text-foreground'
+                }`}
+              >
+                {s === 'mobile' ? <Smartphone className="w-3.5 h-3.5" /> : <Monitor className="w-3.5 h-3.5" />}
+                {s}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-sm text-muted">
+            Parallel
+            <select
+              value={concurrency}
+              onChange={(e) => setConcurrency(Number(e.target.value))}
+              disabled={running}
+              className="px-2 py-1.5 text-sm rounded-lg bg-background border border-border outline-none"
+            >
+              {CONCURRENCY_OPTIONS.map((n) => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+          <span className="text-sm text-muted">
+            {parsed.urls.length} URLs
+            {parsed.invalid.length > 0 && (
+              <span className="text-red" title={parsed.invalid.join('\n')}> · {parsed.invalid.length} invalid</span>
+            )}
+          </span>
+          <div className="ml-auto">
+            {running ? (
+              <button
+                onClick={() => abortRef.current?.abort()}
+                className="flex items-center gap-2 px-4 py-2 text-sm rounded-xl border border-border hover:bg-surface-2 transition-colors"
+              >
+                <Square className="w-4 h-4" />
+                Stop
+              </button>
+            ) : (
+              <button
+                onClick={handleStart}
+                disabled={parsed.urls.length === 0}
+                className="flex items-center gap-2 px-4 py-2 bg-teal hover:bg-teal-dim text-background font-semibold rounded-xl transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <Play className="w-4 h-4" />
+                Run {parsed.urls.length || ''} tests
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {items.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex items-center gap-3 text-sm text-muted">
+            <span className="tabular-nums">{finished} / {items.length} finished</span>
+            <div className="flex-1 h-1.5 bg-surface rounded-full overflow-hidden">
+              <div className="h-full bg-teal rounded-full transition-all" style={{ width: `${(finished / items.length) * 100}%` }} />
+            </div>
+          </div>
+          <BatchTable items={items} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import { Shield, Plus, Trash2, Pencil, X } from 'lucide-react';
+import { getBudgets, saveBudget, deleteBudget } from '@/lib/storage';
+import { BUDGET_VITALS, BUDGET_RESOURCES, formatBudgetValue } from '@/lib/budgets';
+import type { Budget, BudgetResourceKey, CoreWebVitals, VitalBudget } from '@/types';
+
+interface BudgetForm {
+  id: string | null;
+  pattern: string;
+  minScore: string;
+  vitals: Partial<Record<keyof CoreWebVitals, string>>; // 'good', 'needs-improvement' or a number
+  resourceSizes: Partial<Record<BudgetResourceKey, string>>; // KB
+}
+
+const EMPTY_FORM: BudgetForm = { id: null, pattern: '', minScore: '', vitals: {}, resourceSizes: {} };
+
+function toForm(budget: Budget): BudgetForm {
+  const vitals: BudgetForm['vitals'] = {};
+  for (const [key, limit] of Object.entries(budget.vitals)) {
+    vitals[key as keyof CoreWebVitals] = String(limit);
+  }
+  const resourceSizes: BudgetForm['resourceSizes'] = {};
+  for (const [key, bytes] of Object.entries(budget.resourceSizes)) {
+    resourceSizes[key as BudgetResourceKey] = String(Math.round(bytes / 1024));
+  }
+  return {
+    id: budget.id,
+    pattern: budget.pattern,
+    minScore: budget.minScore !== undefined ? String(budget.minScore) : '',
+    vitals,
+    resourceSizes,
+  };
+}
+
+function fromForm(form: BudgetForm): Budget {
+  const vitals: Budget['vitals'] = {};
+  for (const [key, raw] of Object.entries(form.vitals)) {
+    const value = raw.trim();
+    if (!value) continue;
+    vitals[key as keyof CoreWebVitals] = value === 'good' || value === 'needs-improvement'
+      ? value
+      : Number(value) as VitalBudget;
+  }
+  const resourceSizes: Budget['resourceSizes'] = {};
+  for (const [key, raw] of Object.entries(form.resourceSizes)) {
+    if (raw.trim()) resourceSizes[key as BudgetResourceKey] = Number(raw) * 1024;
+  }
+  return {
+    id: form.id ?? `budget_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    pattern: form.pattern.trim(),
+    minScore: form.minScore.trim() ? Number(form.minScore) : undefined,
+    vitals,
+    resourceSizes,
+  };
+}
+
+function describeVitalLimit(key: keyof CoreWebVitals, limit: VitalBudget): string {
+  if (limit === 'good') return 'good';
+  if (limit === 'needs-improvement') return 'not poor';
+  return formatBudgetValue(limit, key === 'cls' ? '' : 'ms');
+}
+
+export default function BudgetsContent() {
+  const [budgets, setBudgets] = useState<Budget[]>(getBudgets);
+  const [form, setForm] = useState<BudgetForm>(EMPTY_FORM);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!form.pattern.trim()) return;
+    saveBudget(fromForm(form));
+    setBudgets(getBudgets());
+    setForm(EMPTY_FORM);
+  };
+
+  const handleDelete = (id: string) => {
+    deleteBudget(id);
+    setBudgets(getBudgets());
+    if (form.id === id) setForm(EMPTY_FORM);
+  };
+
+  const inputClass = 'w-full px-3 py-2 text-sm rounded-lg bg-background border border-border outline-none focus:border-teal/40 placeholder:text-muted/50';
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 py-12 space-y-8">
+      <div className="flex items-center gap-3">
+        <Shield className="w-6 h-6 text-teal" />
+        <h1 className="text-2xl font-bold">Performance Budgets</h1>
+        <span className="text-sm text-muted">({budgets.length} budgets)</span>
+      </div>
+
+      <form onSubmit={handleSubmit} className="rounded-2xl border border-border bg-surface p-5 space-y-5">
+        <div className="flex items-center justify-between">
+          <h2 className="font-semibold">{form.id ? 'Edit Budget' : 'New Budget'}</h2>
+          {form.id && (
+            <button type="button" onClick={() => setForm(EMPTY_FORM)} className="p-1.5 rounded-md hover:bg-surface-2 text-muted">
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-[1fr_10rem] gap-3">
+          <label className="space-y-1.5">
+            <span className="text-xs text-muted uppercase tracking-wider font-medium">URL pattern</span>
+            <input
+              type="text"
+              value={form.pattern}
+              onChange={(e) => setForm({ ...form, pattern: e.target.value })}
+              placeholder="example.com/blog/*"
+              className={`${inputClass} font-mono`}
+            />
+          </label>
+          <label className="space-y-1.5">
+            <span className="text-xs text-muted uppercase tracking-wider font-medium">Min score</span>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={form.minScore}
+              onChange={(e) => setForm({ ...form, minScore: e.target.value })}
+              placeholder="85"
+              className={inputClass}
+            />
+          </label>
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-xs text-muted uppercase tracking-wider font-medium">
+            Vitals — a maximum (ms, CLS unitless) or a required rating
+          </div>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            {BUDGET_VITALS.map(({ key, label }) => {
+              const value = form.vitals[key] ?? '';
+              const isRating = value === 'good' || value === 'needs-improvement';
+              return (
+                <div key={key} className="space-y-1.5">
+                  <span className="text-sm">{label}</span>
+                  <div className="flex gap-2">
+                    <select
+                      value={isRating ? value : value ? 'max' : ''}
+                      onChange={(e) => setForm({
+                        ...form,
+                        vitals: { ...form.vitals, [key]: e.target.value === 'max' ? '0' : e.target.value },
+                      })}
+                      className={inputClass}
+                    >
+                      <option value="">No limit</option>
+                      <option value="good">Good</option>
+                      <option value="needs-improvement">Not poor</option>
+                      <option value="max">Maximum</option>
+                    </select>
+                    {value && !isRating && (
+                      <input
+                        type="number"
+                        min={0}
+                        step={key === 'cls' ? 0.01 : 100}
+                        value={value}
+                        onChange={(e) => setForm({ ...form, vitals: { ...form.vitals, [key]: e.target.value } })}
+                        className={inputClass}
+                      />
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-xs text-muted uppercase tracking-wider font-medium">Max transfer size (KB)</div>
+          <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 gap-3">
+            {BUDGET_RESOURCES.map(({ key, label }) => (
+              <label key={key} className="space-y-1.5">
+                <span className="text-sm">{label}</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={form.resourceSizes[key] ?? ''}
+                  onChange={(e) => setForm({ ...form, resourceSizes: { ...form.resourceSizes, [key]: e.target.value } })}
+                  className={inputClass}
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={!form.pattern.trim()}
+            className="px-4 py-2 bg-teal hover:bg-teal-dim text-background font-semibold rounded-xl transition-colors disabled:opacity-40 disabled:cursor-not-allowed flex items-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            {form.id ? 'Save Budget' : 'Add Budget'}
+          </button>
+        </div>
+      </form>
+
+      {budgets.length > 0 && (
+        <div className="space-y-2">
+          {budgets.map((budget) => {
+            const rules = [
+              ...(budget.minScore !== undefined ? [`score ≥ ${budget.minScore}`] : []),
+              ...BUDGET_VITALS
+                .filter(({ key }) => budget.vitals[key] !== undefined)
+                .map(({ key, label }) => `${label} ${describeVitalLimit(key, budget.vitals[key]!)}`),
+              ...BUDGET_RESOURCES
+                .filter(({ key }) => budget.resourceSizes[key] !== undefined)
+                .map(({ key, label }) => `${label} ≤ ${formatBudgetValue(budget.resourceSizes[key]!, 'bytes')}`),
+            ];
+            return (
+              <div key={budget.id} className="rounded-xl border border-border bg-surface px-4 py-3 flex items-center gap-4 group">
+                <div className="flex-1 min-w-0">
+                  <div className="font-mono text-sm text-teal truncate">{budget.pattern}</div>
+                  <div className="text-xs text-muted mt-0.5">{rules.length > 0 ? rules.join(' · ') : 'No limits set'}</div>
+                </div>
+                <button
+                  onClick={() => setForm(toForm(budget))}
+                  className="p-1.5 rounded-md hover:bg-surface-2 text-muted hover:text-foreground transition-colors"
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={() => handleDelete(budget.id)}
+                  className="p-1.5 rounded-md hover:bg-red/10 text-muted hover:text-red transition-colors"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
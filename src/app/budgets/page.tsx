@@ -0,0 +1,21 @@
+'use client';
+
+import dynamic from 'next/dynamic';
+
+// Budgets live in localStorage, so the editor only renders in the browser
+const BudgetsContent = dynamic(() => import('./BudgetsContent'), {
+  ssr: false,
+  loading: () => (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 py-12">
+      <div className="space-y-4">
+        {[...Array(3)].map((_, i) => (
+          <div key={i} className="h-20 rounded-xl bg-surface animate-pulse" />
+        ))}
+      </div>
+    </div>
+  ),
+});
+
+export default function BudgetsPage() {
+  return <BudgetsContent />;
+}
@@ -0,0 +1,343 @@
+'use client';
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { ArrowLeftRight, Globe, Loader2, Search, Smartphone, Monitor, Plus, X, Trophy, Medal } from 'lucide-react';
+import { requestSpeedTest } from '@/lib/client';
+import { getHistoryDriver } from '@/lib/history';
+import {
+  COMPARE_METRICS, MAX_SITES, MIN_SITES, decodeComparison, encodeComparison, findWinners, getMetricValue, rankSites, siteLabel,
+} from '@/lib/compare';
+import ScoreRing from '@/components/ScoreRing';
+import VitalsGrid from '@/components/VitalsGrid';
+import ErrorDisplay from '@/components/ErrorDisplay';
+import type { ComparisonSite, ComparisonState, Strategy } from '@/types';
+import { formatCls, formatMs, getVitalRating, getRatingColor, getScoreColor } from '@/lib/utils';
+
+const EMPTY_SITE: ComparisonSite = { url: '', result: null, loading: false, error: '' };
+
+// Column classes per site count, spelled out so Tailwind keeps them
+const GRID_COLUMNS: Record<number, string> = {
+  2: 'md:grid-cols-2',
+  3: 'md:grid-cols-3',
+  4: 'md:grid-cols-2 lg:grid-cols-4',
+  5: 'md:grid-cols-3 lg:grid-cols-5',
+  6: 'md:grid-cols-3 lg:grid-cols-6',
+};
+
+function initialState(params: URLSearchParams): ComparisonState {
+  const { urls, strategy } = decodeComparison(params);
+  const complete = urls.filter(Boolean).length >= MIN_SITES;
+  // A bookmarked comparison starts testing straight away
+  return { strategy, sites: urls.map((url) => ({ ...EMPTY_SITE, url, loading: complete && url !== '' })) };
+}
+
+function formatValue(key: string, value: number | null): string {
+  if (value === null) return '—';
+  if (key === 'score') return String(value);
+  return key === 'cls' ? formatCls(value) : formatMs(value);
+}
+
+export default function CompareContent() {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const [state, setState] = useState<ComparisonState>(() => initialState(new URLSearchParams(searchParams.toString())));
+  const autoRun = useRef(true);
+  const { sites, strategy } = state;
+
+  const updateSite = useCallback((index: number, patch: Partial<ComparisonSite>) => {
+    setState((p) => ({ ...p, sites: p.sites.map((s, i) => (i === index ? { ...s, ...patch } : s)) }));
+  }, []);
+
+  // Callers mark the site as loading first
+  const runSite = useCallback(async (index: number, url: string, runStrategy: Strategy) => {
+    try {
+      const data = await requestSpeedTest(url, { strategy: runStrategy });
+      updateSite(index, { result: data, loading: false });
+      (await getHistoryDriver()).save(data).catch(() => undefined);
+    } catch (err) {
+      updateSite(index, { loading: false, error: err instanceof Error ? err.message : 'Analysis failed' });
+    }
+  }, [updateSite]);
+
+  useEffect(() => {
+    if (!autoRun.current) return;
+    autoRun.current = false;
+    sites.forEach((site, i) => {
+      if (site.loading) runSite(i, site.url, strategy);
+    });
+  }, [sites, strategy, runSite]);
+
+  const syncUrl = (next: ComparisonState) => {
+    const query = encodeComparison(next.sites.map((s) => s.url.trim()).filter(Boolean), next.strategy);
+    router.replace(query ? `/compare?${query}` : '/compare', { scroll: false });
+  };
+
+  const handleTest = (index: number) => {
+    const url = sites[index].url.trim();
+    if (!url) return;
+    updateSite(index, { loading: true, error: '', result: null });
+    runSite(index, url, strategy);
+    syncUrl(state);
+  };
+
+  const handleCompare = () => {
+    const next: ComparisonState = {
+      strategy,
+      sites: sites.map((s) => (s.url.trim() ? { ...s, loading: true, error: '', result: null } : s)),
+    };
+    setState(next);
+    next.sites.forEach((s, i) => {
+      if (s.loading) runSite(i, s.url.trim(), strategy);
+    });
+    syncUrl(next);
+  };
+
+  const handleChangeStrategy = (next: Strategy) => {
+    // Results from different strategies are not comparable
+    const cleared = { strategy: next, sites: sites.map((s) => ({ ...s, result: null, error: '' })) };
+    setState(cleared);
+    syncUrl(cleared);
+  };
+
+  const handleAddSite = () => {
+    if (sites.length < MAX_SITES) setState((p) => ({ ...p, sites: [...p.sites, EMPTY_SITE] }));
+  };
+
+  // Disabled while tests run, since results are written back by column index
+  const handleRemoveSite = (index: number) => {
+    const next = { ...state, sites: sites.filter((_, i) => i !== index) };
+    setState(next);
+    syncUrl(next);
+  };
+
+  const anyLoading = sites.some((s) => s.loading);
+  const filled = sites.filter((s) => s.url.trim()).length;
+  const results = sites.map((s) => s.result);
+  const readyCount = results.filter(Boolean).length;
+  const leaderboard = readyCount >= MIN_SITES ? rankSites(results) : [];
+  const columns = GRID_COLUMNS[sites.length];
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 py-12 space-y-8">
+      <div className="text-center space-y-3">
+        <div className="flex items-center justify-center gap-3">
+          <ArrowLeftRight className="w-6 h-6 text-teal" />
+          <h1 className="text-2xl font-bold">Compare Sites</h1>
+        </div>
+        <p className="text-muted">Test {MIN_SITES} to {MAX_SITES} URLs side-by-side to compare performance</p>
+      </div>
+
+      {/* URL Inputs */}
+      <div className={`grid grid-cols-1 sm:grid-cols-2 ${sites.length > 2 ? 'lg:grid-cols-3' : ''} gap-4 max-w-5xl mx-auto`}>
+        {sites.map((site, index) => (
+          <div key={index} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <label className="text-xs text-muted uppercase tracking-wider font-medium">
+                Site {siteLabel(index)}
+              </label>
+              {sites.length > MIN_SITES && (
+                <button
+                  onClick={() => handleRemoveSite(index)}
+                  disabled={anyLoading}
+                  className="p-1 rounded-md text-muted hover:text-foreground hover:bg-surface-2 transition-colors disabled:opacity-40"
+                  aria-label={`Remove site ${siteLabel(index)}`}
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+            <div className="flex items-center bg-surface border border-border rounded-xl overflow-hidden focus-within:border-teal/40 transition-colors">
+              <Globe className="w-4 h-4 text-muted ml-4 shrink-0" />
+              <input
+                type="text"
+                value={site.url}
+                onChange={(e) => updateSite(index, { url: e.target.value })}
+                placeholder="example.com"
+                className="flex-1 min-w-0 bg-transparent px-3 py-3 text-sm outline-none placeholder:text-muted/50"
+                disabled={site.loading}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleTest(index);
+                }}
+              />
+              <button
+                onClick={() => handleTest(index)}
+                disabled={!site.url.trim() || site.loading}
+                className="mr-2 p-2 rounded-lg hover:bg-surface-2 transition-colors disabled:opacity-40"
+              >
+                {site.loading ? (
+                  <Loader2 className="w-4 h-4 animate-spin text-teal" />
+                ) : (
+                  <Search className="w-4 h-4 text-muted" />
+                )}
+              </button>
+            </div>
+            {site.loading && (
+              <div className="text-xs text-muted flex items-center gap-2">
+                <Loader2 className="w-3 h-3 animate-spin text-teal" />
+                Analyzing...
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-center gap-3 flex-wrap">
+        <div className="inline-flex items-center gap-1 p-1 rounded-xl bg-surface border border-border">
+          {([
+            { value: 'mobile', label: 'Mobile', icon: Smartphone },
+            { value: 'desktop', label: 'Desktop', icon: Monitor },
+          ] as const).map(({ value, label, icon: Icon }) => (
+            <button
+              key={value}
+              onClick={() => handleChangeStrategy(value)}
+              disabled={anyLoading}
+              className={`flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-lg transition-colors disabled:opacity-40 ${
+                strategy === value
+                  ? 'bg-teal/10 text-teal border border-teal/20'
+                  : 'text-muted hover:text-foreground hover:bg-surface-2 border border-transparent'
+              }`}
+            >
+              <Icon className="w-4 h-4" />
+              {label}
+            </button>
+          ))}
+        </div>
+        {sites.length < MAX_SITES && (
+          <button
+            onClick={handleAddSite}
+            className="flex items-center gap-2 px-4 py-2.5 text-sm rounded-xl bg-surface border border-border hover:bg-surface-2 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            Add Site
+          </button>
+        )}
+        <button
+          onClick={handleCompare}
+          disabled={filled < MIN_SITES || anyLoading}
+          className="px-6 py-2.5 bg-teal hover:bg-teal-dim text-background font-semibold rounded-xl transition-colors disabled:opacity-40 disabled:cursor-not-allowed flex items-center gap-2"
+        >
+          <ArrowLeftRight className="w-4 h-4" />
+          Compare All
+        </button>
+      </div>
+
+      {/* Errors */}
+      {sites.map((site, index) => site.error && (
+        <ErrorDisplay key={index} message={`Site ${siteLabel(index)}: ${site.error}`} />
+      ))}
+
+      {/* Comparison Results */}
+      {readyCount > 0 && (
+        <div className="space-y-8">
+          {/* Score comparison */}
+          <div className={`grid grid-cols-1 sm:grid-cols-2 ${columns} gap-4`}>
+            {sites.map((site, index) => {
+              const r = site.result;
+              if (!r) return (
+                <div key={index} className="rounded-2xl border border-border bg-surface p-8 flex items-center justify-center text-muted text-sm text-center">
+                  {site.loading ? 'Analyzing...' : 'Enter a URL and test'}
+                </div>
+              );
+              return (
+                <div key={index} className="rounded-2xl border border-border bg-surface p-5 flex flex-col items-center gap-3 animate-fade-up min-w-0">
+                  <span className="text-xs text-muted uppercase tracking-wider">
+                    Site {siteLabel(index)} · {r.strategy}
+                  </span>
+                  <ScoreRing score={r.score} grade={r.grade} size={sites.length > 3 ? 110 : 140} />
+                  <a href={r.url} target="_blank" rel="noopener noreferrer" className="text-teal text-sm font-mono truncate max-w-full hover:underline">
+                    {r.url.replace(/^https?:\/\//, '')}
+                  </a>
+                  <div className="text-xs text-muted">
+                    Analyzed in {formatMs(r.fetchTime)}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Leaderboard */}
+          {leaderboard.length > 0 && (
+            <div className="space-y-4">
+              <h2 className="text-lg font-semibold flex items-center gap-2">
+                <Trophy className="w-5 h-5 text-teal" />
+                Leaderboard
+              </h2>
+              <div className="rounded-xl border border-border bg-surface divide-y divide-border/50">
+                {leaderboard.map((entry) => (
+                  <div key={entry.index} className="px-4 py-3 flex items-center gap-4 text-sm">
+                    <span className={`w-8 text-center font-bold tabular-nums ${entry.rank === 1 ? 'text-teal' : 'text-muted'}`}>
+                      {entry.rank === 1 ? <Medal className="w-5 h-5 mx-auto" /> : `#${entry.rank}`}
+                    </span>
+                    <span className="text-xs text-muted w-12">Site {siteLabel(entry.index)}</span>
+                    <span className="flex-1 min-w-0 font-mono text-teal truncate">{entry.result.url.replace(/^https?:\/\//, '')}</span>
+                    <span className="text-xs text-muted">
+                      {entry.wins} of {COMPARE_METRICS.length} metrics won
+                    </span>
+                    <span className={`w-10 text-right font-bold tabular-nums ${getScoreColor(entry.result.score)}`}>
+                      {entry.result.score}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Side-by-side metrics */}
+          {readyCount >= MIN_SITES && (
+            <div className="space-y-4">
+              <h2 className="text-lg font-semibold">Metrics Comparison</h2>
+              <div className="rounded-xl border border-border bg-surface overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-border">
+                      <th className="px-4 py-3 text-left text-xs text-muted font-medium uppercase">Metric</th>
+                      {sites.map((_, index) => (
+                        <th key={index} className="px-4 py-3 text-right text-xs text-muted font-medium uppercase">
+                          Site {siteLabel(index)}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {COMPARE_METRICS.map((metric) => {
+                      const winners = findWinners(results, metric);
+                      return (
+                        <tr key={metric.key} className="border-b border-border/50 hover:bg-surface-2/50 transition-colors">
+                          <td className="px-4 py-3 font-medium">{metric.label}</td>
+                          {results.map((r, index) => {
+                            const value = r ? getMetricValue(r, metric.key) : null;
+                            const color = value === null
+                              ? 'text-muted'
+                              : metric.key === 'score' ? getScoreColor(value) : getRatingColor(getVitalRating(metric.key, value));
+                            const won = winners.includes(index);
+                            return (
+                              <td key={index} className={`px-4 py-3 text-right tabular-nums font-medium ${color}`}>
+                                <span className={`inline-flex items-center gap-1.5 ${won ? 'px-2 py-0.5 rounded bg-teal/10' : ''}`}>
+                                  {won && <Trophy className="w-3 h-3 text-teal" />}
+                                  {r ? formatValue(metric.key, value) : ''}
+                                </span>
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {/* Individual vitals grids */}
+          {sites.map((site, index) => site.result && (
+            <div key={index} className="space-y-2">
+              <h3 className="text-sm font-medium text-muted">Site {siteLabel(index)} — Detailed Vitals</h3>
+              <VitalsGrid vitals={site.result.vitals} fieldData={site.result.fieldData} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
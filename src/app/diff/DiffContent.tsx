@@ -0,0 +1,338 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { GitCompareArrows, ArrowLeftRight, Camera, HardDrive, ListChecks, Plus, Minus, ArrowUp, ArrowDown } from 'lucide-react';
+import { FilmstripFrame } from '@/components/ScreenshotTimeline';
+import { getHistoryDriver } from '@/lib/history';
+import { alignFilmstrips, diffResults, type MetricDiff } from '@/lib/diff';
+import { formatBytes, formatCls, formatMs, getResourceTypeColor, timeAgo } from '@/lib/utils';
+import type { AuditItem, HistoryEntry, ResourceItem, SpeedTestResult } from '@/types';
+
+// Enough runs to pick from without paging through the history API
+const ENTRY_LIMIT = 500;
+
+function formatMetric(key: MetricDiff['key'], value: number | null): string {
+  if (value === null) return '—';
+  if (key === 'score') return String(value);
+  return key === 'cls' ? formatCls(value) : formatMs(value);
+}
+
+function formatDelta(key: MetricDiff['key'], delta: number | null): string {
+  if (delta === null || delta === 0) return '±0';
+  const sign = delta > 0 ? '+' : '−';
+  if (key === 'score') return `${sign}${Math.abs(delta)}`;
+  return sign + (key === 'cls' ? formatCls(Math.abs(delta)) : formatMs(Math.abs(delta)));
+}
+
+function formatByteDelta(delta: number): string {
+  if (delta === 0) return '±0 B';
+  return `${delta > 0 ? '+' : '−'}${formatBytes(Math.abs(delta))}`;
+}
+
+function deltaColor(improved: boolean | null): string {
+  if (improved === null) return 'text-muted';
+  return improved ? 'text-green' : 'text-red';
+}
+
+function runLabel(entry: HistoryEntry): string {
+  return `${new Date(entry.timestamp).toLocaleString()} · ${entry.score} (${entry.strategy})`;
+}
+
+function shortUrl(url: string): string {
+  try {
+    const u = new URL(url);
+    return `${u.hostname}${u.pathname}${u.search}`;
+  } catch {
+    return url;
+  }
+}
+
+function ResourceList({ title, icon, resources, className }: {
+  title: string;
+  icon: React.ReactNode;
+  resources: ResourceItem[];
+  className: string;
+}) {
+  if (resources.length === 0) return null;
+  return (
+    <div className="space-y-2">
+      <h3 className={`text-sm font-medium flex items-center gap-2 ${className}`}>
+        {icon}
+        {title} ({resources.length})
+      </h3>
+      <div className="rounded-xl border border-border bg-surface divide-y divide-border/50 max-h-72 overflow-y-auto">
+        {resources.map((r, i) => (
+          <div key={`${r.url}-${i}`} className="px-4 py-2 flex items-center gap-3 text-xs">
+            <div className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: getResourceTypeColor(r.type) }} />
+            <span className="flex-1 min-w-0 truncate font-mono text-muted" title={r.url}>{shortUrl(r.url)}</span>
+            <span className="tabular-nums">{formatBytes(r.transferSize)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function AuditList({ title, audits, className }: { title: string; audits: AuditItem[]; className: string }) {
+  return (
+    <div className="space-y-2">
+      <h3 className={`text-sm font-medium ${className}`}>{title} ({audits.length})</h3>
+      {audits.length === 0 ? (
+        <div className="rounded-xl border border-border bg-surface px-4 py-3 text-xs text-muted">None</div>
+      ) : (
+        <div className="rounded-xl border border-border bg-surface divide-y divide-border/50">
+          {audits.map((a) => (
+            <div key={a.id} className="px-4 py-2.5 text-sm flex items-center gap-3">
+              <span className="flex-1 min-w-0 truncate">{a.title}</span>
+              {a.displayValue && <span className="text-xs text-muted shrink-0">{a.displayValue}</span>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function DiffContent() {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const beforeId = searchParams.get('before');
+  const afterId = searchParams.get('after');
+
+  const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+  const [loaded, setLoaded] = useState<Record<string, SpeedTestResult | null>>({});
+  const requested = useRef(new Set<string>());
+
+  useEffect(() => {
+    getHistoryDriver()
+      .then((history) => history.list({ pageSize: ENTRY_LIMIT }))
+      .then((page) => setEntries(page.entries))
+      .catch(() => setEntries([]));
+  }, []);
+
+  const afterEntry = entries?.find((e) => e.id === afterId) ?? null;
+  // Only runs of the same page and device are comparable
+  const candidates = useMemo(
+    () => (entries ?? []).filter((e) => afterEntry && e.id !== afterEntry.id && e.url === afterEntry.url && e.strategy === afterEntry.strategy),
+    [entries, afterEntry],
+  );
+  // Without an explicit choice, diff against the run just before
+  const effectiveBeforeId = beforeId ?? candidates.find((e) => afterEntry && e.timestamp < afterEntry.timestamp)?.id ?? null;
+
+  useEffect(() => {
+    for (const id of [effectiveBeforeId, afterId]) {
+      if (!id || requested.current.has(id)) continue;
+      requested.current.add(id);
+      getHistoryDriver()
+        .then((history) => history.get(id))
+        .catch(() => null)
+        .then((result) => setLoaded((p) => ({ ...p, [id]: result })));
+    }
+  }, [effectiveBeforeId, afterId]);
+
+  const before = effectiveBeforeId ? loaded[effectiveBeforeId] : undefined;
+  const after = afterId ? loaded[afterId] : undefined;
+  const diff = useMemo(() => (before && after ? diffResults(before, after) : null), [before, after]);
+  const frames = useMemo(
+    () => (before && after ? alignFilmstrips(before.screenshots, after.screenshots) : []),
+    [before, after],
+  );
+
+  const select = (next: { before?: string | null; after?: string | null }) => {
+    const params = new URLSearchParams();
+    const a = next.after !== undefined ? next.after : afterId;
+    const b = next.before !== undefined ? next.before : beforeId;
+    if (b) params.set('before', b);
+    if (a) params.set('after', a);
+    router.replace(`/diff?${params}`, { scroll: false });
+  };
+
+  const selectClass = 'w-full px-3 py-2 text-sm rounded-lg bg-background border border-border outline-none focus:border-teal/40';
+
+  if (entries === null) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-12">
+        <div className="h-48 rounded-xl bg-surface animate-pulse" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 py-12 space-y-8">
+      <div className="flex items-center gap-3">
+        <GitCompareArrows className="w-6 h-6 text-teal" />
+        <h1 className="text-2xl font-bold">Before / After</h1>
+        {afterEntry && <span className="font-mono text-sm text-teal truncate">{afterEntry.url.replace(/^https?:\/\//, '')}</span>}
+      </div>
+
+      {/* Run pickers */}
+      <div className="rounded-2xl border border-border bg-surface p-4 grid grid-cols-1 md:grid-cols-[1fr_auto_1fr] gap-3 items-end">
+        <label className="space-y-1.5">
+          <span className="text-xs text-muted uppercase tracking-wider font-medium">Before</span>
+          <select
+            value={effectiveBeforeId ?? ''}
+            onChange={(e) => select({ before: e.target.value || null })}
+            disabled={candidates.length === 0}
+            className={selectClass}
+          >
+            {candidates.length === 0 && <option value="">No other runs of this page</option>}
+            {candidates.map((e) => <option key={e.id} value={e.id}>{runLabel(e)}</option>)}
+          </select>
+        </label>
+        <button
+          onClick={() => select({ before: afterId, after: effectiveBeforeId })}
+          disabled={!effectiveBeforeId || !afterId}
+          title="Swap runs"
+          className="p-2 rounded-lg border border-border hover:bg-surface-2 transition-colors disabled:opacity-40 justify-self-center"
+        >
+          <ArrowLeftRight className="w-4 h-4" />
+        </button>
+        <label className="space-y-1.5">
+          <span className="text-xs text-muted uppercase tracking-wider font-medium">After</span>
+          <select
+            value={afterId ?? ''}
+            onChange={(e) => select({ after: e.target.value || null, before: null })}
+            className={selectClass}
+          >
+            <option value="">Choose a run…</option>
+            {entries.map((e) => (
+              <option key={e.id} value={e.id}>{e.url.replace(/^https?:\/\//, '')} · {runLabel(e)}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {entries.length === 0 && (
+        <div className="rounded-2xl border border-border bg-surface p-12 text-center space-y-4">
+          <p className="text-muted">No tests in history yet. Test a page twice to see what changed between runs.</p>
+          <Link href="/" className="inline-flex px-4 py-2 bg-teal hover:bg-teal-dim text-background font-semibold rounded-lg transition-colors">
+            Run a Test
+          </Link>
+        </div>
+      )}
+
+      {(before === null || after === null) && (
+        <div className="rounded-xl border border-border bg-surface p-6 text-center text-muted">
+          The full result of one of these runs is no longer stored, so it can&apos;t be diffed.
+        </div>
+      )}
+
+      {before && after && diff && (
+        <div className="space-y-8 animate-fade-up">
+          <div className="text-xs text-muted">
+            Comparing a run from {timeAgo(before.timestamp)} with one from {timeAgo(after.timestamp)}
+          </div>
+
+          {/* Metrics */}
+          <div className="rounded-xl border border-border bg-surface overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-border text-xs text-muted uppercase">
+                  <th className="px-4 py-3 text-left font-medium">Metric</th>
+                  <th className="px-4 py-3 text-right font-medium">Before</th>
+                  <th className="px-4 py-3 text-right font-medium">After</th>
+                  <th className="px-4 py-3 text-right font-medium">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {diff.metrics.map((m) => (
+                  <tr key={m.key} className="border-b border-border/50">
+                    <td className="px-4 py-2.5 font-medium">{m.label}</td>
+                    <td className="px-4 py-2.5 text-right tabular-nums text-muted">{formatMetric(m.key, m.before)}</td>
+                    <td className="px-4 py-2.5 text-right tabular-nums">{formatMetric(m.key, m.after)}</td>
+                    <td className={`px-4 py-2.5 text-right tabular-nums font-medium ${deltaColor(m.improved)}`}>
+                      {formatDelta(m.key, m.delta)}
+                    </td>
+                  </tr>
+                ))}
+                <tr className="border-b border-border/50">
+                  <td className="px-4 py-2.5 font-medium">Transfer size</td>
+                  <td className="px-4 py-2.5 text-right tabular-nums text-muted">{formatBytes(diff.transfer.before)}</td>
+                  <td className="px-4 py-2.5 text-right tabular-nums">{formatBytes(diff.transfer.after)}</td>
+                  <td className={`px-4 py-2.5 text-right tabular-nums font-medium ${deltaColor(diff.transfer.delta === 0 ? null : diff.transfer.delta < 0)}`}>
+                    {formatByteDelta(diff.transfer.delta)}
+                  </td>
+                </tr>
+                <tr>
+                  <td className="px-4 py-2.5 font-medium">Requests</td>
+                  <td className="px-4 py-2.5 text-right tabular-nums text-muted">{diff.requests.before}</td>
+                  <td className="px-4 py-2.5 text-right tabular-nums">{diff.requests.after}</td>
+                  <td className={`px-4 py-2.5 text-right tabular-nums font-medium ${deltaColor(diff.requests.delta === 0 ? null : diff.requests.delta < 0)}`}>
+                    {diff.requests.delta > 0 ? '+' : ''}{diff.requests.delta === 0 ? '±0' : diff.requests.delta}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          {/* Filmstrips */}
+          {frames.length > 0 && (
+            <div className="space-y-4">
+              <div className="flex items-center gap-2">
+                <Camera className="w-5 h-5 text-muted" />
+                <h2 className="text-lg font-semibold">Loading Timeline</h2>
+              </div>
+              <div className="rounded-xl border border-border bg-surface p-4 overflow-x-auto space-y-3">
+                {(['before', 'after'] as const).map((run) => (
+                  <div key={run} className="flex gap-4 min-w-max items-start">
+                    <span className="w-12 pt-10 text-xs text-muted uppercase tracking-wider">{run}</span>
+                    {frames.map((f, i) => (
+                      <FilmstripFrame key={i} data={f[run]?.data ?? null} timing={f.timing} delay={i * 50} />
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Resources */}
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <HardDrive className="w-5 h-5 text-muted" />
+              <h2 className="text-lg font-semibold">Resources</h2>
+            </div>
+            {diff.added.length + diff.removed.length + diff.changed.length === 0 ? (
+              <div className="rounded-xl border border-border bg-surface px-4 py-3 text-sm text-muted">No resource changes</div>
+            ) : (
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+                <ResourceList title="Added" icon={<Plus className="w-4 h-4" />} resources={diff.added} className="text-red" />
+                <ResourceList title="Removed" icon={<Minus className="w-4 h-4" />} resources={diff.removed} className="text-green" />
+                {diff.changed.length > 0 && (
+                  <div className="space-y-2">
+                    <h3 className="text-sm font-medium text-muted">Changed size ({diff.changed.length})</h3>
+                    <div className="rounded-xl border border-border bg-surface divide-y divide-border/50 max-h-72 overflow-y-auto">
+                      {diff.changed.map((c, i) => (
+                        <div key={`${c.url}-${i}`} className="px-4 py-2 flex items-center gap-3 text-xs">
+                          <div className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: getResourceTypeColor(c.type) }} />
+                          <span className="flex-1 min-w-0 truncate font-mono text-muted" title={c.url}>{shortUrl(c.url)}</span>
+                          <span className={`flex items-center gap-0.5 tabular-nums ${c.delta > 0 ? 'text-red' : 'text-green'}`}>
+                            {c.delta > 0 ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />}
+                            {formatByteDelta(c.delta)}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Audits */}
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <ListChecks className="w-5 h-5 text-muted" />
+              <h2 className="text-lg font-semibold">Audits</h2>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <AuditList title="Newly failing" audits={diff.newlyFailing} className="text-red" />
+              <AuditList title="Fixed" audits={diff.fixed} className="text-green" />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+'use client';
+
+import { Suspense } from 'react';
+import DiffContent from './DiffContent';
+
+export default function DiffPage() {
+  return (
+    <Suspense fallback={
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-12 space-y-4">
+        <div className="h-8 w-64 bg-surface rounded-lg animate-pulse" />
+        <div className="h-48 rounded-xl bg-surface animate-pulse" />
+      </div>
+    }>
+      <DiffContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import { useState, type ChangeEvent, type DragEvent } from 'react';
+import { FileUp, Network } from 'lucide-react';
+import ResourceBreakdown from '@/components/ResourceBreakdown';
+import WaterfallChart from '@/components/WaterfallChart';
+import ErrorDisplay from '@/components/ErrorDisplay';
+import { parseHar } from '@/lib/har';
+import type { ResourceItem } from '@/types';
+
+export default function HarPage() {
+  const [resources, setResources] = useState<ResourceItem[] | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [error, setError] = useState('');
+  const [dragging, setDragging] = useState(false);
+
+  const loadFile = async (file: File) => {
+    setError('');
+    try {
+      setResources(parseHar(await file.text()));
+      setFileName(file.name);
+    } catch (err) {
+      setResources(null);
+      setError(err instanceof Error ? err.message : 'Could not read HAR file');
+    }
+  };
+
+  const handleChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) loadFile(file);
+    e.target.value = '';
+  };
+
+  const handleDrop = (e: DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) loadFile(file);
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 py-12 space-y-8">
+      <div className="flex items-center gap-3">
+        <Network className="w-6 h-6 text-teal" />
+        <h1 className="text-2xl font-bold">HAR Viewer</h1>
+        {fileName && <span className="text-sm text-muted truncate">{fileName}</span>}
+      </div>
+
+      <label
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+        className={`flex flex-col items-center justify-center gap-3 rounded-2xl border-2 border-dashed p-10 cursor-pointer transition-colors ${
+          dragging ? 'border-teal/60 bg-teal/5' : 'border-border bg-surface hover:border-teal/30'
+        }`}
+      >
+        <FileUp className="w-8 h-8 text-muted" />
+        <div className="text-center space-y-1">
+          <p className="font-medium">Drop a .har file or click to choose one</p>
+          <p className="text-sm text-muted">
+            Export one from your browser&apos;s network panel, or from a Speedstein report. Nothing is uploaded.
+          </p>
+        </div>
+        <input type="file" accept=".har,application/json" onChange={handleChange} className="hidden" />
+      </label>
+
+      {error && <ErrorDisplay message={error} />}
+
+      {resources && (
+        resources.length === 0 ? (
+          <div className="rounded-xl border border-border bg-surface p-8 text-center text-muted">
+            This HAR file has no requests
+          </div>
+        ) : (
+          <div className="space-y-8">
+            <ResourceBreakdown resources={resources} />
+            <WaterfallChart resources={resources} />
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -1,34 +1,83 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { getHistory, clearHistory, deleteHistoryEntry } from '@/lib/storage';
-import type { HistoryEntry } from '@/types';
-import { formatMs, timeAgo, getGradeColor, getGradeBgColor, getScoreColor } from '@/lib/utils';
-import { History, Trash2, ExternalLink, TrendingUp, BarChart3, Clock } from 'lucide-react';
+import { getHistoryDriver, listAllHistory, type HistoryDriver } from '@/lib/history';
+import type { HistoryEntry, HistoryPage, Strategy } from '@/types';
+import { formatMs, timeAgo, getGradeColor, getGradeBgColor, getScoreColor, downloadBlob } from '@/lib/utils';
+import { HISTORY_COLUMNS, csvBlob, toCsv } from '@/lib/csv';
+import { History, Trash2, Download, ExternalLink, TrendingUp, BarChart3, Clock, Smartphone, Monitor, Server, HardDrive, X, ChevronLeft, ChevronRight } from 'lucide-react';
 import Link from 'next/link';
+import TrendView from '@/components/TrendView';
+
+const PAGE_SIZE = 20;
 
 export default function HistoryPage() {
-  const [entries, setEntries] = useState<HistoryEntry[]>([]);
-  const [mounted, setMounted] = useState(false);
+  const [driver, setDriver] = useState<HistoryDriver | null>(null);
+  const [history, setHistory] = useState<HistoryPage | null>(null);
+  const [page, setPage] = useState(1);
+  const [urlFilter, setUrlFilter] = useState<string | null>(null);
+  const [allEntries, setAllEntries] = useState<HistoryEntry[]>([]);
 
-  useEffect(() => {
-    setMounted(true);
-    setEntries(getHistory());
+  const load = useCallback(() => {
+    getHistoryDriver()
+      .then(async (d) => {
+        setDriver(d);
+        const result = await d.list({ url: urlFilter ?? undefined, page, pageSize: PAGE_SIZE });
+        // Deleting the last entry of the last page leaves it empty; step back to the new last page
+        const lastPage = Math.max(1, Math.ceil(result.total / PAGE_SIZE));
+        if (page > lastPage) {
+          setPage(lastPage);
+          return;
+        }
+        setHistory(result);
+      })
+      .catch(() => setHistory({ entries: [], total: 0, page: 1, pageSize: PAGE_SIZE }));
+  }, [page, urlFilter]);
+
+  // Score trends cover the whole history, so they are loaded apart from the visible page
+  const loadTrends = useCallback(() => {
+    getHistoryDriver()
+      .then((d) => listAllHistory(d))
+      .then(setAllEntries)
+      .catch(() => setAllEntries([]));
   }, []);
 
-  const handleClear = useCallback(() => {
-    if (confirm('Clear all test history?')) {
-      clearHistory();
-      setEntries([]);
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    loadTrends();
+  }, [loadTrends]);
+
+  const handleClear = useCallback(async () => {
+    if (driver && confirm('Clear all test history?')) {
+      await driver.clear();
+      setPage(1);
+      load();
+      loadTrends();
     }
-  }, []);
+  }, [driver, load, loadTrends]);
 
-  const handleDelete = useCallback((id: string) => {
-    deleteHistoryEntry(id);
-    setEntries(getHistory());
-  }, []);
+  // Exports every test matching the current filter, not just the visible page
+  const handleExportCsv = useCallback(async () => {
+    if (!driver) return;
+    const all = await listAllHistory(driver, urlFilter ?? undefined);
+    downloadBlob(csvBlob(toCsv(HISTORY_COLUMNS, all)), `speedstein-history-${Date.now()}.csv`);
+  }, [driver, urlFilter]);
+
+  const handleDelete = useCallback(async (id: string) => {
+    await driver?.remove(id);
+    load();
+    loadTrends();
+  }, [driver, load, loadTrends]);
 
-  if (!mounted) {
+  const handleFilter = (url: string | null) => {
+    setUrlFilter(url);
+    setPage(1);
+  };
+
+  if (!history) {
     return (
       <div className="max-w-5xl mx-auto px-4 sm:px-6 py-12">
         <div className="space-y-4">
@@ -40,10 +89,14 @@ export default function HistoryPage() {
     );
   }
 
-  // Group by URL for trends
-  const urlGroups = entries.reduce<Record<string, HistoryEntry[]>>((acc, entry) => {
-    if (!acc[entry.url]) acc[entry.url] = [];
-    acc[entry.url].push(entry);
+  const entries = history.entries;
+  const pageCount = Math.max(1, Math.ceil(history.total / history.pageSize));
+
+  // Group by URL and strategy for trends so mobile and desktop scores never mix
+  const urlGroups = allEntries.reduce<Record<string, HistoryEntry[]>>((acc, entry) => {
+    const key = `${entry.strategy}:${entry.url}`;
+    if (!acc[key]) acc[key] = [];
+    acc[key].push(entry);
     return acc;
   }, {});
 
@@ -53,19 +106,49 @@ export default function HistoryPage() {
         <div className="flex items-center gap-3">
           <History className="w-6 h-6 text-teal" />
           <h1 className="text-2xl font-bold">Test History</h1>
-          <span className="text-sm text-muted">({entries.length} tests)</span>
+          <span className="text-sm text-muted">({history.total} tests)</span>
+          {driver && (
+            <span
+              className="flex items-center gap-1 text-xs text-muted"
+              title={driver.name === 'server' ? 'Full results kept in the server database' : `Summaries of the last tests, kept in this browser`}
+            >
+              {driver.name === 'server' ? <Server className="w-3 h-3" /> : <HardDrive className="w-3 h-3" />}
+              {driver.name === 'server' ? 'Server' : 'This browser'}
+            </span>
+          )}
         </div>
         {entries.length > 0 && (
-          <button
-            onClick={handleClear}
-            className="flex items-center gap-2 px-3 py-1.5 text-sm text-red hover:bg-red/5 rounded-lg transition-colors"
-          >
-            <Trash2 className="w-4 h-4" />
-            Clear All
-          </button>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={handleExportCsv}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm text-muted hover:text-foreground hover:bg-surface-2 rounded-lg transition-colors"
+            >
+              <Download className="w-4 h-4" />
+              Export CSV
+            </button>
+            <button
+              onClick={handleClear}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm text-red hover:bg-red/5 rounded-lg transition-colors"
+            >
+              <Trash2 className="w-4 h-4" />
+              Clear All
+            </button>
+          </div>
         )}
       </div>
 
+      {urlFilter && (
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-muted">Showing tests of</span>
+          <span className="font-mono text-teal truncate">{urlFilter.replace(/^https?:\/\//, '')}</span>
+          <button onClick={() => handleFilter(null)} className="p-1 rounded-md hover:bg-surface-2 text-muted hover:text-foreground">
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      )}
+
+      {urlFilter && <TrendView key={urlFilter} url={urlFilter} />}
+
       {entries.length === 0 ? (
         <div className="rounded-2xl border border-border bg-surface p-12 text-center space-y-4">
           <BarChart3 className="w-12 h-12 text-muted mx-auto" />
@@ -85,20 +168,23 @@ export default function HistoryPage() {
       ) : (
         <div className="space-y-6">
           {/* Trend Summary */}
-          {Object.keys(urlGroups).length > 0 && (
+          {!urlFilter && Object.keys(urlGroups).length > 0 && (
             <div className="space-y-3">
               <h2 className="text-sm font-medium text-muted flex items-center gap-2">
                 <TrendingUp className="w-4 h-4" />
                 Score Trends
               </h2>
               <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
-                {Object.entries(urlGroups).slice(0, 6).map(([url, tests]) => {
+                {Object.entries(urlGroups).slice(0, 6).map(([key, tests]) => {
                   const latest = tests[0];
                   const previous = tests.length > 1 ? tests[1] : null;
                   const diff = previous ? latest.score - previous.score : 0;
                   return (
-                    <div key={url} className="rounded-xl border border-border bg-surface p-4 space-y-2">
-                      <div className="text-sm font-mono text-teal truncate">{url.replace(/^https?:\/\//, '')}</div>
+                    <div key={key} className="rounded-xl border border-border bg-surface p-4 space-y-2">
+                      <button onClick={() => handleFilter(latest.url)} className="flex items-center gap-2 max-w-full hover:underline">
+                        <StrategyIcon strategy={latest.strategy} />
+                        <span className="text-sm font-mono text-teal truncate">{latest.url.replace(/^https?:\/\//, '')}</span>
+                      </button>
                       <div className="flex items-center justify-between">
                         <div className="flex items-baseline gap-2">
                           <span className={`text-2xl font-bold ${getScoreColor(latest.score)}`}>
@@ -114,7 +200,12 @@ export default function HistoryPage() {
                           </span>
                         )}
                       </div>
-                      <div className="text-xs text-muted">{tests.length} tests · Latest {timeAgo(latest.timestamp)}</div>
+                      <div className="flex items-center justify-between text-xs text-muted">
+                        <span>{tests.length} tests · Latest {timeAgo(latest.timestamp)}</span>
+                        <button onClick={() => handleFilter(latest.url)} className="text-teal hover:underline">
+                          Trend
+                        </button>
+                      </div>
                     </div>
                   );
                 })}
@@ -140,17 +231,38 @@ export default function HistoryPage() {
                     </a>
                   </div>
                   <div className="flex items-center gap-3 text-xs text-muted mt-0.5">
+                    <span className="flex items-center gap-1 capitalize">
+                      <StrategyIcon strategy={entry.strategy} />
+                      {entry.strategy}
+                    </span>
                     <span className="flex items-center gap-1">
                       <Clock className="w-3 h-3" />
                       {timeAgo(entry.timestamp)}
                     </span>
                     <span>Score: {entry.score}</span>
+                    {entry.runs && (
+                      <span title={`Run scores: ${entry.runs.scores.join(', ')}`}>
+                        Median of {entry.runs.scores.length} runs
+                      </span>
+                    )}
                     <span>Analyzed in {formatMs(entry.fetchTime)}</span>
                   </div>
                 </div>
                 <div className="flex items-center gap-2">
                   <Link
-                    href={`/?url=${encodeURIComponent(entry.url)}`}
+                    href={`/report/${entry.id}`}
+                    className="px-3 py-1.5 text-xs rounded-md bg-surface-2 border border-border hover:border-teal/30 transition-colors"
+                  >
+                    View
+                  </Link>
+                  <Link
+                    href={`/diff?after=${entry.id}`}
+                    className="px-3 py-1.5 text-xs rounded-md bg-surface-2 border border-border hover:border-teal/30 transition-colors"
+                  >
+                    Diff
+                  </Link>
+                  <Link
+                    href={`/?url=${encodeURIComponent(entry.url)}&strategy=${entry.strategy}`}
                     className="px-3 py-1.5 text-xs rounded-md bg-surface-2 border border-border hover:border-teal/30 transition-colors"
                   >
                     Retest
@@ -165,8 +277,33 @@ export default function HistoryPage() {
               </div>
             ))}
           </div>
+
+          {pageCount > 1 && (
+            <div className="flex items-center justify-center gap-3 text-sm">
+              <button
+                onClick={() => setPage((p) => p - 1)}
+                disabled={history.page <= 1}
+                className="p-1.5 rounded-md border border-border hover:bg-surface-2 transition-colors disabled:opacity-40"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <span className="text-muted tabular-nums">Page {history.page} of {pageCount}</span>
+              <button
+                onClick={() => setPage((p) => p + 1)}
+                disabled={history.page >= pageCount}
+                className="p-1.5 rounded-md border border-border hover:bg-surface-2 transition-colors disabled:opacity-40"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+          )}
         </div>
       )}
     </div>
   );
 }
+
+function StrategyIcon({ strategy }: { strategy: Strategy }) {
+  const Icon = strategy === 'desktop' ? Monitor : Smartphone;
+  return <Icon className="w-3 h-3 text-muted shrink-0" />;
+}
@@ -0,0 +1,277 @@
+'use client';
+
+import { useState, useEffect, useCallback, type FormEvent } from 'react';
+import { Activity, Globe, Loader2, Plus, Pause, Play, Trash2, Clock, Smartphone, Monitor as MonitorIcon, AlertCircle, ChevronDown, ChevronUp, ChevronLeft, ChevronRight } from 'lucide-react';
+import { fetchMonitors, fetchMonitor, createMonitor, updateMonitor, deleteMonitor } from '@/lib/client';
+import { timeAgo, formatMs, getScoreColor, getGradeColor } from '@/lib/utils';
+import Link from 'next/link';
+import ErrorDisplay from '@/components/ErrorDisplay';
+import type { HistoryPage, Monitor, Strategy } from '@/types';
+
+const INTERVAL_LABELS: Record<number, string> = {
+  15: 'Every 15 min',
+  60: 'Hourly',
+  360: 'Every 6 hours',
+  1440: 'Daily',
+};
+
+export default function MonitorsPage() {
+  const [monitors, setMonitors] = useState<Monitor[] | null>(null);
+  const [error, setError] = useState('');
+  const [url, setUrl] = useState('');
+  const [strategy, setStrategy] = useState<Strategy>('mobile');
+  const [intervalMinutes, setIntervalMinutes] = useState(60);
+  const [saving, setSaving] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const refresh = useCallback(() => {
+    fetchMonitors()
+      .then(setMonitors)
+      .catch((err: Error) => setError(err.message));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!url.trim() || saving) return;
+    setSaving(true);
+    setError('');
+    try {
+      await createMonitor({ url: url.trim(), strategy, intervalMinutes });
+      setUrl('');
+      refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not create monitor');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleTogglePause = async (monitor: Monitor) => {
+    await updateMonitor(monitor.id, { paused: !monitor.paused });
+    refresh();
+  };
+
+  const handleDelete = async (monitor: Monitor) => {
+    if (!confirm(`Stop monitoring ${monitor.url} and delete its results?`)) return;
+    await deleteMonitor(monitor.id);
+    refresh();
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 py-12 space-y-8">
+      <div className="flex items-center gap-3">
+        <Activity className="w-6 h-6 text-teal" />
+        <h1 className="text-2xl font-bold">Monitors</h1>
+        {monitors && <span className="text-sm text-muted">({monitors.length} URLs)</span>}
+      </div>
+
+      {/* New monitor */}
+      <form onSubmit={handleCreate} className="rounded-2xl border border-border bg-surface p-4 space-y-3">
+        <div className="flex items-center bg-background border border-border rounded-xl overflow-hidden focus-within:border-teal/40 transition-colors">
+          <Globe className="w-4 h-4 text-muted ml-4 shrink-0" />
+          <input
+            type="text"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="example.com"
+            className="flex-1 bg-transparent px-3 py-3 text-sm outline-none placeholder:text-muted/50"
+            disabled={saving}
+          />
+        </div>
+        <div className="flex items-center gap-3 flex-wrap">
+          <div className="inline-flex items-center gap-1 p-1 rounded-xl bg-background border border-border">
+            {([
+              { value: 'mobile', label: 'Mobile', icon: Smartphone },
+              { value: 'desktop', label: 'Desktop', icon: MonitorIcon },
+            ] as const).map(({ value, label, icon: Icon }) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setStrategy(value)}
+                className={`flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-lg transition-colors ${
+                  strategy === value
+                    ? 'bg-teal/10 text-teal border border-teal/20'
+                    : 'text-muted hover:text-foreground hover:bg-surface-2 border border-transparent'
+                }`}
+              >
+                <Icon className="w-4 h-4" />
+                {label}
+              </button>
+            ))}
+          </div>
+          <select
+            value={intervalMinutes}
+            onChange={(e) => setIntervalMinutes(Number(e.target.value))}
+            className="px-3 py-2 text-sm rounded-xl bg-background border border-border outline-none focus:border-teal/40"
+          >
+            {Object.entries(INTERVAL_LABELS).map(([minutes, label]) => (
+              <option key={minutes} value={minutes}>{label}</option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={!url.trim() || saving}
+            className="ml-auto px-4 py-2 bg-teal hover:bg-teal-dim text-background font-semibold rounded-xl transition-colors disabled:opacity-40 disabled:cursor-not-allowed flex items-center gap-2"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            Add Monitor
+          </button>
+        </div>
+      </form>
+
+      {error && <ErrorDisplay message={error} />}
+
+      {monitors === null ? (
+        <div className="space-y-4">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="h-20 rounded-xl bg-surface animate-pulse" />
+          ))}
+        </div>
+      ) : monitors.length === 0 ? (
+        <div className="rounded-2xl border border-border bg-surface p-12 text-center space-y-2">
+          <Activity className="w-12 h-12 text-muted mx-auto" />
+          <h2 className="text-lg font-semibold">No monitors yet</h2>
+          <p className="text-muted">Add a URL above and Speedstein will re-test it on a schedule.</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {monitors.map((monitor) => {
+            const isExpanded = expandedId === monitor.id;
+            return (
+              <div key={monitor.id} className="rounded-xl border border-border bg-surface overflow-hidden">
+                <div className="px-4 py-3 flex items-center gap-4">
+                  <div className={`w-12 text-center text-xl font-bold tabular-nums ${
+                    monitor.lastScore !== null ? getScoreColor(monitor.lastScore) : 'text-muted'
+                  }`}>
+                    {monitor.lastScore ?? '—'}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="font-mono text-sm text-teal truncate">{monitor.url.replace(/^https?:\/\//, '')}</div>
+                    <div className="flex items-center gap-3 text-xs text-muted mt-0.5 flex-wrap">
+                      <span className="capitalize">{monitor.strategy}</span>
+                      <span>{INTERVAL_LABELS[monitor.intervalMinutes] ?? `Every ${monitor.intervalMinutes} min`}</span>
+                      <span className="flex items-center gap-1">
+                        <Clock className="w-3 h-3" />
+                        {monitor.lastRunAt ? `Last run ${timeAgo(monitor.lastRunAt)}` : 'Not run yet'}
+                      </span>
+                      {monitor.paused && <span className="text-yellow">Paused</span>}
+                      {monitor.lastError && (
+                        <span className="flex items-center gap-1 text-red" title={monitor.lastError}>
+                          <AlertCircle className="w-3 h-3" />
+                          Last run failed
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => handleTogglePause(monitor)}
+                      title={monitor.paused ? 'Resume' : 'Pause'}
+                      className="p-1.5 rounded-md hover:bg-surface-2 text-muted hover:text-foreground transition-colors"
+                    >
+                      {monitor.paused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(monitor)}
+                      title="Delete"
+                      className="p-1.5 rounded-md hover:bg-red/10 text-muted hover:text-red transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => setExpandedId(isExpanded ? null : monitor.id)}
+                      className="p-1.5 rounded-md hover:bg-surface-2 text-muted hover:text-foreground transition-colors"
+                    >
+                      {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                    </button>
+                  </div>
+                </div>
+                {isExpanded && <MonitorResults id={monitor.id} />}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function MonitorResults({ id }: { id: string }) {
+  const [runs, setRuns] = useState<HistoryPage | null>(null);
+  const [page, setPage] = useState(1);
+
+  useEffect(() => {
+    fetchMonitor(id, page)
+      .then((data) => setRuns(data.runs))
+      .catch(() => setRuns({ entries: [], total: 0, page: 1, pageSize: 20 }));
+  }, [id, page]);
+
+  if (runs === null) {
+    return <div className="px-4 pb-4 text-xs text-muted">Loading results...</div>;
+  }
+
+  if (runs.total === 0) {
+    return <div className="px-4 pb-4 text-xs text-muted">No results recorded yet.</div>;
+  }
+
+  const pageCount = Math.max(1, Math.ceil(runs.total / runs.pageSize));
+
+  return (
+    <div className="border-t border-border/50">
+      <div className="max-h-72 overflow-y-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-border/50 text-xs text-muted uppercase">
+              <th className="px-4 py-2 text-left font-medium">Run</th>
+              <th className="px-4 py-2 text-right font-medium">Score</th>
+              <th className="px-4 py-2 text-right font-medium">LCP</th>
+              <th className="px-4 py-2 text-right font-medium">CLS</th>
+              <th className="px-4 py-2 text-right font-medium">TBT</th>
+            </tr>
+          </thead>
+          <tbody>
+            {runs.entries.map((r) => (
+              <tr key={r.id} className="border-b border-border/30 last:border-0">
+                <td className="px-4 py-2">
+                  <Link href={`/report/${r.id}`} className="text-muted hover:text-teal transition-colors">
+                    {new Date(r.timestamp).toLocaleString()}
+                  </Link>
+                </td>
+                <td className="px-4 py-2 text-right tabular-nums">
+                  <span className={`font-semibold ${getScoreColor(r.score)}`}>{r.score}</span>{' '}
+                  <span className={getGradeColor(r.grade)}>{r.grade}</span>
+                </td>
+                <td className="px-4 py-2 text-right tabular-nums">{formatMs(r.vitals.lcp)}</td>
+                <td className="px-4 py-2 text-right tabular-nums">{r.vitals.cls?.toFixed(3) ?? '—'}</td>
+                <td className="px-4 py-2 text-right tabular-nums">{formatMs(r.vitals.tbt)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {pageCount > 1 && (
+        <div className="flex items-center justify-center gap-3 py-2 border-t border-border/50 text-xs">
+          <button
+            onClick={() => setPage((p) => p - 1)}
+            disabled={runs.page <= 1}
+            className="p-1 rounded-md border border-border hover:bg-surface-2 transition-colors disabled:opacity-40"
+          >
+            <ChevronLeft className="w-3.5 h-3.5" />
+          </button>
+          <span className="text-muted tabular-nums">Page {runs.page} of {pageCount} · {runs.total} runs</span>
+          <button
+            onClick={() => setPage((p) => p + 1)}
+            disabled={runs.page >= pageCount}
+            className="p-1 rounded-md border border-border hover:bg-surface-2 transition-colors disabled:opacity-40"
+          >
+            <ChevronRight className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { Link2, Trash2, Clock } from 'lucide-react';
+import ResultsDashboard from '@/components/ResultsDashboard';
+import LoadingSkeleton from '@/components/LoadingSkeleton';
+import ErrorDisplay from '@/components/ErrorDisplay';
+import { fetchSnapshot, deleteSnapshot } from '@/lib/client';
+import { getSharedSnapshots, removeSharedSnapshot } from '@/lib/storage';
+import type { Snapshot } from '@/types';
+
+export default function SnapshotPage() {
+  const { id } = useParams<{ id: string }>();
+  const [snapshot, setSnapshot] = useState<Snapshot | null | undefined>(undefined);
+  const [deleteToken] = useState(() => getSharedSnapshots().find((s) => s.id === id)?.deleteToken);
+  const [deleted, setDeleted] = useState(false);
+  const [deleteError, setDeleteError] = useState('');
+
+  useEffect(() => {
+    fetchSnapshot(id)
+      .then(setSnapshot)
+      .catch(() => setSnapshot(null));
+  }, [id]);
+
+  const handleDelete = async () => {
+    if (!deleteToken || !confirm('Delete this shared snapshot? The link will stop working.')) return;
+    setDeleteError('');
+    try {
+      await deleteSnapshot(id, deleteToken);
+    } catch (err) {
+      // A 403 or 404 leaves the snapshot page (and the saved token) as they are
+      setDeleteError(err instanceof Error ? err.message : 'Could not delete snapshot');
+      return;
+    }
+    removeSharedSnapshot(id);
+    setDeleted(true);
+  };
+
+  if (snapshot === undefined) {
+    return <div className="pt-12"><LoadingSkeleton /></div>;
+  }
+
+  if (snapshot === null || deleted) {
+    return (
+      <div className="max-w-xl mx-auto px-4 sm:px-6 py-20">
+        <div className="rounded-2xl border border-border bg-surface p-12 text-center space-y-4">
+          <Link2 className="w-12 h-12 text-muted mx-auto" />
+          <div className="space-y-2">
+            <h1 className="text-lg font-semibold">{deleted ? 'Snapshot deleted' : 'Snapshot not found'}</h1>
+            <p className="text-muted">
+              {deleted ? 'This link no longer works.' : 'This shared report has expired or was deleted by its owner.'}
+            </p>
+          </div>
+          <Link
+            href="/"
+            className="inline-flex items-center gap-2 px-4 py-2 bg-teal hover:bg-teal-dim text-background font-semibold rounded-lg transition-colors"
+          >
+            Run a Test
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 py-12 space-y-6">
+      <div className="flex items-center justify-between gap-3 flex-wrap no-print">
+        <div className="flex items-center gap-3 text-sm text-muted flex-wrap">
+          <span className="flex items-center gap-2">
+            <Link2 className="w-4 h-4" />
+            Shared snapshot from {new Date(snapshot.result.timestamp).toLocaleString()}
+          </span>
+          {snapshot.expiresAt && (
+            <span className="flex items-center gap-1.5">
+              <Clock className="w-3.5 h-3.5" />
+              Expires {new Date(snapshot.expiresAt).toLocaleDateString()}
+            </span>
+          )}
+        </div>
+        {deleteToken && (
+          <button
+            onClick={handleDelete}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm text-red rounded-lg hover:bg-red/5 transition-colors"
+          >
+            <Trash2 className="w-4 h-4" />
+            Delete Snapshot
+          </button>
+        )}
+      </div>
+      {deleteError && <ErrorDisplay message={deleteError} />}
+      <ResultsDashboard results={[snapshot.result]} firstPartyDomains={snapshot.firstPartyDomains} readOnly />
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { FileText, RefreshCcw } from 'lucide-react';
+import ResultsDashboard from '@/components/ResultsDashboard';
+import LoadingSkeleton from '@/components/LoadingSkeleton';
+import { getHistoryDriver } from '@/lib/history';
+import type { SpeedTestResult } from '@/types';
+
+export default function ReportPage() {
+  const { id } = useParams<{ id: string }>();
+  const [result, setResult] = useState<SpeedTestResult | null | undefined>(undefined);
+
+  useEffect(() => {
+    getHistoryDriver()
+      .then((history) => history.get(id))
+      .then(setResult)
+      .catch(() => setResult(null));
+  }, [id]);
+
+  if (result === undefined) {
+    return <div className="pt-12"><LoadingSkeleton /></div>;
+  }
+
+  if (result === null) {
+    return (
+      <div className="max-w-xl mx-auto px-4 sm:px-6 py-20">
+        <div className="rounded-2xl border border-border bg-surface p-12 text-center space-y-4">
+          <FileText className="w-12 h-12 text-muted mx-auto" />
+          <div className="space-y-2">
+            <h1 className="text-lg font-semibold">Report not found</h1>
+            <p className="text-muted">
+              This test was deleted, or it was run before full reports were kept.
+            </p>
+          </div>
+          <Link
+            href="/history"
+            className="inline-flex items-center gap-2 px-4 py-2 bg-teal hover:bg-teal-dim text-background font-semibold rounded-lg transition-colors"
+          >
+            Back to History
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 py-12 space-y-6">
+      <div className="flex items-center justify-between gap-3 flex-wrap no-print">
+        <div className="flex items-center gap-2 text-sm text-muted">
+          <FileText className="w-4 h-4" />
+          Saved report from {new Date(result.timestamp).toLocaleString()}
+        </div>
+        <Link
+          href={`/?url=${encodeURIComponent(result.url)}&strategy=${result.strategy}`}
+          className="flex items-center gap-2 px-3 py-1.5 text-sm rounded-lg bg-surface border border-border hover:bg-surface-2 transition-colors"
+        >
+          <RefreshCcw className="w-4 h-4" />
+          Retest
+        </Link>
+      </div>
+      <ResultsDashboard results={[result]} />
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFile } from 'child_process';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import path from 'path';
+import { startPsiStub, type PsiStub } from '@/test/psi-stub';
+
+const CLI = path.join(__dirname, 'index.ts');
+
+let psi: PsiStub;
+let dir: string;
+
+interface CliRun {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+// Runs the CLI in its own process, the way `npm run speedstein` does
+function cli(...args: string[]): Promise<CliRun> {
+  const env = { ...process.env };
+  delete env.PSI_API_URL;
+  delete env.PSI_API_KEY;
+  return new Promise((resolve) => {
+    execFile(process.execPath, ['--import', 'tsx', CLI, ...args], { env, timeout: 60_000 }, (err, stdout, stderr) => {
+      resolve({ code: err ? (typeof err.code === 'number' ? err.code : -1) : 0, stdout, stderr });
+    });
+  });
+}
+
+async function writeJson(name: string, value: unknown): Promise<string> {
+  const file = path.join(dir, name);
+  await writeFile(file, typeof value === 'string' ? value : JSON.stringify(value));
+  return file;
+}
+
+before(async () => {
+  psi = await startPsiStub({ score: 85, lcp: 1800 });
+  dir = await mkdtemp(path.join(tmpdir(), 'speedstein-cli-'));
+});
+
+after(async () => {
+  await psi.close();
+  await rm(dir, { recursive: true, force: true });
+});
+
+test('exits 0 and reports each run when the budget passes', async () => {
+  const budget = await writeJson('pass.json', { pattern: 'example.com/*', minScore: 80, vitals: { lcp: 2500 }, resourceSizes: { total: 500_000 } });
+
+  const run = await cli('test', 'https://example.com/', '--endpoint', psi.endpoint, '--budget', budget, '--strategy', 'both');
+
+  assert.equal(run.code, 0, run.stderr);
+  assert.match(run.stdout, /✔ https:\/\/example\.com\/ \(mobile\)  85 B  LCP 1\.80 s  CLS 0\.020  TBT 150 ms$/m);
+  assert.match(run.stdout, /✔ https:\/\/example\.com\/ \(desktop\)  85 B/);
+  assert.match(run.stdout, /All 2 runs passed/);
+});
+
+test('exits 1 and lists the violations when the budget fails', async () => {
+  const budget = await writeJson('fail.json', [{ pattern: '*', vitals: { lcp: 1000 }, resourceSizes: { script: 100_000 } }]);
+
+  const run = await cli('test', 'https://example.com/', '--endpoint', psi.endpoint, '--budget', budget, '--format', 'json');
+
+  assert.equal(run.code, 1, run.stderr);
+  const report = JSON.parse(run.stdout);
+  assert.equal(report.passed, false);
+  assert.equal(report.runs[0].score, 85);
+  assert.equal(report.runs[0].budget, '*');
+  assert.deepEqual(report.runs[0].failures.map((f: { metric: string }) => f.metric), ['lcp', 'size:script']);
+});
+
+test('exits 1 below --min-score and 2 when PageSpeed Insights fails', async () => {
+  const low = await cli('test', 'https://example.com/', '--endpoint', psi.endpoint, '--min-score', '90');
+  assert.equal(low.code, 1);
+  assert.match(low.stdout, /Performance score 85 < 90/);
+
+  psi.options.status = 429;
+  try {
+    const failed = await cli('test', 'https://example.com/', '--endpoint', psi.endpoint);
+    assert.equal(failed.code, 2);
+    assert.match(failed.stdout, /error: Quota exceeded/);
+  } finally {
+    delete psi.options.status;
+  }
+});
+
+test('rejects malformed budget files with a clear message', async () => {
+  const cases: [unknown, RegExp][] = [
+    ['{ not json', /not valid JSON/],
+    [{ vitals: { lcp: 'fast' } }, /Budget 1 in .*: vitals\.lcp must be a number/],
+    [[{}, { resourceSizes: { video: 10 } }], /Budget 2 in .*: Unknown resource type "video"/],
+    [{ minScore: 150 }, /minScore must be a number between 0 and 100/],
+  ];
+  for (const [content, message] of cases) {
+    const run = await cli('test', 'https://example.com/', '--endpoint', psi.endpoint, '--budget', await writeJson('bad.json', content));
+    assert.equal(run.code, 2);
+    assert.match(run.stderr, message);
+  }
+});
+
+test('crawl tests the pages of a sitemap and prints a table', async () => {
+  let origin = '';
+  const site: Server = createServer((req, res) => {
+    if (req.url !== '/sitemap.xml') return void res.writeHead(404).end();
+    res.writeHead(200, { 'Content-Type': 'application/xml' });
+    res.end(`<urlset>${['/', '/blog/a', '/blog/b'].map((p) => `<url><loc>${origin}${p}</loc></url>`).join('')}</urlset>`);
+  });
+  await new Promise<void>((resolve) => site.listen(0, '127.0.0.1', resolve));
+  origin = `http://127.0.0.1:${(site.address() as AddressInfo).port}`;
+  psi.requests.length = 0;
+
+  try {
+    const run = await cli('crawl', `${origin}/sitemap.xml`, '--endpoint', psi.endpoint, '--prefix', '/blog', '--min-score', '80');
+
+    assert.equal(run.code, 0, run.stderr);
+    assert.match(run.stderr, /Testing 2 of 3 pages from 1 sitemaps/);
+    assert.deepEqual(psi.requests.map((r) => new URL(r.url).pathname).sort(), ['/blog/a', '/blog/b']);
+    assert.match(run.stdout, /Page\s+Score\s+LCP/);
+    assert.match(run.stdout, /All 2 pages passed/);
+  } finally {
+    site.closeAllConnections();
+    await new Promise((resolve) => site.close(resolve));
+  }
+});
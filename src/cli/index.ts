@@ -0,0 +1,280 @@
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { createServer } from 'http';
+import path from 'path';
+import { parseArgs } from 'util';
+import type { AlertRule, Budget, SpeedTestResult, Strategy } from '@/types';
+import { runSpeedTest, CATEGORIES, STRATEGIES } from '@/lib/api';
+import { getPsiConfig } from '@/lib/config';
+import { generatePdfReport } from '@/lib/pdf';
+import { runBatch } from '@/lib/batch';
+import { RUN_COUNTS, runMultiple } from '@/lib/multirun';
+import { deliverAlert, evaluateRules, validateAlertRuleInput, type AlertBaseline } from '@/lib/alerts';
+import { crawlSitemap, selectPages } from '@/lib/sitemap';
+import { validateBudgetInput } from '@/lib/budgets';
+import { checkResult, formatJson, formatTable, formatText, type RunReport } from './report';
+
+// Exit codes: 0 all runs passed, 1 a score or budget check failed, 2 usage or runtime error
+const EXIT_FAILED = 1;
+const EXIT_ERROR = 2;
+
+const USAGE = `Usage: speedstein test <url...> [options]
+       speedstein crawl <sitemap-url> [options]
+       speedstein pdf <result.json> [-o <file>]
+       speedstein receive [--port <n>] [--status <code>]
+
+Options:
+  -h, --help                        Show this help
+
+Test and crawl options:
+  --endpoint <url>                  PageSpeed Insights endpoint (default: $PSI_API_URL)
+  --api-key <key>                   PageSpeed Insights API key (default: $PSI_API_KEY)
+  --strategy <mobile|desktop|both>  Device to emulate (default: mobile)
+  --min-score <n>                   Fail runs scoring below n
+  --budget <file>                   JSON file with a budget or an array of budgets
+  --categories all                  Also audit accessibility, best practices and SEO
+  --runs <1|3|5>                    Test each page several times and report the median run (default: 1)
+  --format <text|json>              Report format (default: text)
+  --pdf <dir>                       Also write a PDF report per run into dir
+  --alerts <file>                   JSON file with alert rules; matching alerts are sent to their webhooks
+  --baseline <file>                 Earlier --format json output (or results) that alert rules compare against
+
+Crawl options:
+  --prefix <path>                   Only test pages whose path starts with this
+  --max <n>                         Test at most n pages (default: 25)
+  --sample <first|spread>           Take the first n pages or spread them across the sitemap
+  --concurrency <n>                 Tests to run at once (default: 2)
+
+Pdf options:
+  -o, --output <file>               Output file (default: the result file with .pdf)
+
+Receive options (a local webhook receiver that prints what it gets):
+  --port <n>                        Port to listen on (default: 9000)
+  --status <code>                   Status to answer with, e.g. 500 to watch retries (default: 200)`;
+
+class UsageError extends Error {}
+
+async function readJsonFile(file: string): Promise<unknown> {
+  const text = await readFile(file, 'utf8').catch((err: NodeJS.ErrnoException) => {
+    throw new UsageError(`Could not read ${file}: ${err.code === 'ENOENT' ? 'no such file' : err.message}`);
+  });
+  try {
+    return JSON.parse(text);
+  } catch (err) {
+    throw new UsageError(`${file} is not valid JSON: ${(err as Error).message}`);
+  }
+}
+
+async function loadBudgets(file: string | undefined): Promise<Budget[]> {
+  if (!file) return [];
+  const parsed = await readJsonFile(file);
+  return (Array.isArray(parsed) ? parsed : [parsed]).map((b, i) => {
+    try {
+      return validateBudgetInput(b, `budget_${i}`);
+    } catch (err) {
+      throw new UsageError(`Budget ${i + 1} in ${file}: ${(err as Error).message}`);
+    }
+  });
+}
+
+async function loadAlertRules(file: string | undefined): Promise<AlertRule[]> {
+  if (!file) return [];
+  const parsed = (await readJsonFile(file)) as Partial<AlertRule> | Partial<AlertRule>[];
+  return (Array.isArray(parsed) ? parsed : [parsed]).map((r, i) => {
+    try {
+      return { ...validateAlertRuleInput(r, true), id: r.id ?? `alert_${i}`, enabled: r.enabled ?? true, createdAt: 0 };
+    } catch (err) {
+      throw new UsageError(`Alert rule ${i + 1} in ${file}: ${(err as Error).message}`);
+    }
+  });
+}
+
+// Accepts this CLI's --format json output, a single result or an array of results
+async function loadBaseline(file: string | undefined): Promise<(AlertBaseline & Pick<SpeedTestResult, 'url' | 'strategy'>)[]> {
+  if (!file) return [];
+  const parsed = (await readJsonFile(file)) as { runs?: unknown };
+  const runs = Array.isArray(parsed) ? parsed : Array.isArray(parsed.runs) ? parsed.runs : [parsed];
+  return runs.filter((r: Partial<SpeedTestResult>) => typeof r.score === 'number' && r.vitals);
+}
+
+function receive(port: number, status: number): Promise<number> {
+  const server = createServer((request, response) => {
+    let body = '';
+    request.on('data', (chunk) => (body += chunk));
+    request.on('end', () => {
+      let printed = body;
+      try {
+        printed = JSON.stringify(JSON.parse(body), null, 2);
+      } catch {
+        // not JSON; print as received
+      }
+      console.log(`[${new Date().toISOString()}] ${request.method} ${request.url} → ${status}\n${printed}\n`);
+      response.writeHead(status).end();
+    });
+  });
+  server.listen(port, () => console.error(`Listening for webhooks on http://localhost:${port}/`));
+  // Runs until interrupted
+  return new Promise((_, reject) => server.on('error', reject));
+}
+
+function parseStrategies(value: string): Strategy[] {
+  if (value === 'both') return STRATEGIES;
+  if (value === 'mobile' || value === 'desktop') return [value];
+  throw new UsageError(`Unknown strategy "${value}"`);
+}
+
+async function writePdf(result: SpeedTestResult, file: string): Promise<void> {
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, await generatePdfReport(result));
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      strategy: { type: 'string', default: 'mobile' },
+      'min-score': { type: 'string' },
+      budget: { type: 'string' },
+      categories: { type: 'string' },
+      runs: { type: 'string', default: '1' },
+      format: { type: 'string', default: 'text' },
+      pdf: { type: 'string' },
+      alerts: { type: 'string' },
+      baseline: { type: 'string' },
+      port: { type: 'string', default: '9000' },
+      status: { type: 'string', default: '200' },
+      output: { type: 'string', short: 'o' },
+      prefix: { type: 'string' },
+      max: { type: 'string', default: '25' },
+      sample: { type: 'string', default: 'first' },
+      concurrency: { type: 'string', default: '2' },
+      endpoint: { type: 'string' },
+      'api-key': { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  const [command, ...urls] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return values.help ? 0 : EXIT_ERROR;
+  }
+  if (command === 'pdf') {
+    if (urls.length !== 1) throw new UsageError('The pdf command takes one result JSON file');
+    const result = JSON.parse(await readFile(urls[0], 'utf8')) as SpeedTestResult;
+    const output = values.output ?? urls[0].replace(/\.json$/, '') + '.pdf';
+    await writePdf(result, output);
+    console.log(`Wrote ${output}`);
+    return 0;
+  }
+  if (command === 'receive') {
+    const port = Number(values.port);
+    const status = Number(values.status);
+    if (!Number.isInteger(port) || port < 1 || port > 65535) throw new UsageError('--port must be a port number');
+    if (!Number.isInteger(status) || status < 200 || status > 599) throw new UsageError('--status must be an HTTP status code');
+    return receive(port, status);
+  }
+  if (command !== 'test' && command !== 'crawl') throw new UsageError(`Unknown command "${command}"`);
+  if (command === 'crawl' && urls.length !== 1) throw new UsageError('The crawl command takes one sitemap URL');
+  if (urls.length === 0) throw new UsageError('At least one URL is required');
+  if (values.format !== 'text' && values.format !== 'json') {
+    throw new UsageError(`Unknown format "${values.format}"`);
+  }
+
+  const minScore = values['min-score'] !== undefined ? Number(values['min-score']) : undefined;
+  if (minScore !== undefined && !Number.isFinite(minScore)) {
+    throw new UsageError('--min-score must be a number');
+  }
+
+  const runs = Number(values.runs);
+  if (!RUN_COUNTS.includes(runs)) throw new UsageError(`--runs must be one of ${RUN_COUNTS.join(', ')}`);
+
+  const strategies = parseStrategies(values.strategy!);
+  const budgets = await loadBudgets(values.budget);
+  const alertRules = await loadAlertRules(values.alerts);
+  const baseline = await loadBaseline(values.baseline);
+  const config = getPsiConfig();
+  const runOptions = {
+    apiKey: values['api-key'] ?? config.apiKey,
+    endpoint: values.endpoint ?? config.endpoint,
+    categories: values.categories === 'all' ? CATEGORIES : undefined,
+  };
+
+  const run = async (url: string, strategy: Strategy) => {
+    const result = await runMultiple(() => runSpeedTest(url, { ...runOptions, strategy }), runs);
+    if (values.pdf) {
+      await writePdf(result, path.join(values.pdf, `speedstein-${new URL(result.url).hostname}-${strategy}-${result.timestamp}.pdf`));
+    }
+    // "example.com" and "example.com/" are the same page
+    const previous = baseline.find((b) => b.strategy === result.strategy &&
+      b.url.replace(/\/$/, '') === result.url.replace(/\/$/, '')) ?? null;
+    for (const alert of evaluateRules(alertRules, result, previous)) {
+      const rule = alertRules.find((r) => r.id === alert.ruleId)!;
+      const delivery = await deliverAlert(alert, rule, { allowPrivate: true });
+      console.error(delivery.status === 'delivered'
+        ? `speedstein: alert "${rule.name}" sent: ${alert.message}`
+        : `speedstein: alert "${rule.name}" not delivered after ${delivery.attempts} attempts: ${delivery.error}`);
+    }
+    return result;
+  };
+  const errorReport = (url: string, strategy: Strategy, err: unknown): RunReport => ({
+    url,
+    strategy,
+    passed: false,
+    failures: [],
+    error: err instanceof Error ? err.message : String(err),
+  });
+
+  const reports: RunReport[] = [];
+  if (command === 'crawl') {
+    const max = Number(values.max);
+    const concurrency = Number(values.concurrency);
+    if (!Number.isInteger(max) || max < 1) throw new UsageError('--max must be a positive integer');
+    if (!Number.isInteger(concurrency) || concurrency < 1) throw new UsageError('--concurrency must be a positive integer');
+    if (values.sample !== 'first' && values.sample !== 'spread') throw new UsageError(`Unknown sample "${values.sample}"`);
+
+    // Local sitemaps are fine from the command line; only the server guards against them
+    const crawl = await crawlSitemap(urls[0], { allowPrivate: true });
+    for (const { sitemap, message } of crawl.errors) console.error(`speedstein: skipped ${sitemap}: ${message}`);
+    const pages = selectPages(crawl.urls, { pathPrefix: values.prefix, maxCount: max, sample: values.sample });
+    console.error(`Testing ${pages.length} of ${crawl.urls.length} pages from ${crawl.sitemaps.length} sitemaps`);
+
+    for (const strategy of strategies) {
+      const items = await runBatch(pages, (url) => run(url, strategy), { concurrency });
+      reports.push(...items.map((item) => (item.result
+        ? checkResult(item.result, { minScore, budgets })
+        : errorReport(item.url, strategy, new Error(item.error ?? 'Not run')))));
+    }
+  } else {
+    // Sequential on purpose: PSI quotas are per minute
+    for (const url of urls) {
+      for (const strategy of strategies) {
+        try {
+          reports.push(checkResult(await run(url, strategy), { minScore, budgets }));
+        } catch (err) {
+          reports.push(errorReport(url, strategy, err));
+        }
+      }
+    }
+  }
+
+  if (values.format === 'json') {
+    console.log(formatJson(reports));
+  } else {
+    console.log(command === 'crawl' ? formatTable(reports) : formatText(reports));
+  }
+
+  if (reports.some((r) => r.error)) return EXIT_ERROR;
+  if (reports.some((r) => !r.passed)) return EXIT_FAILED;
+  return 0;
+}
+
+main(process.argv.slice(2))
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((err) => {
+    console.error(`speedstein: ${err instanceof Error ? err.message : err}`);
+    if (err instanceof UsageError) console.error(`\n${USAGE}`);
+    process.exitCode = EXIT_ERROR;
+  });
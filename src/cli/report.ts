@@ -0,0 +1,121 @@
+import type { Budget, BudgetViolation, SpeedTestResult, Strategy } from '@/types';
+import { evaluateBudgets, formatBudgetValue } from '@/lib/budgets';
+import { formatCls, formatMs } from '@/lib/utils';
+
+export interface CheckOptions {
+  minScore?: number;
+  budgets: Budget[];
+}
+
+export interface RunReport {
+  url: string;
+  strategy: Strategy;
+  passed: boolean;
+  result?: SpeedTestResult;
+  failures: BudgetViolation[];
+  budget?: string; // matching budget pattern
+  error?: string;
+}
+
+export function checkResult(result: SpeedTestResult, options: CheckOptions): RunReport {
+  const failures: BudgetViolation[] = [];
+  const belowMinScore = options.minScore !== undefined && result.score < options.minScore;
+
+  if (belowMinScore) {
+    failures.push({ metric: 'score', label: 'Performance score', actual: result.score, limit: options.minScore!, unit: 'score' });
+  }
+
+  const evaluation = evaluateBudgets(result, options.budgets);
+  if (evaluation) {
+    // --min-score and a budget's minScore would otherwise report the same failure twice
+    failures.push(...evaluation.violations.filter((v) => !(v.metric === 'score' && belowMinScore)));
+  }
+
+  return {
+    url: result.url,
+    strategy: result.strategy,
+    passed: failures.length === 0,
+    result,
+    failures,
+    budget: evaluation?.pattern,
+  };
+}
+
+export function formatText(reports: RunReport[]): string {
+  const lines: string[] = [];
+
+  for (const report of reports) {
+    const mark = report.passed ? '✔' : '✖';
+    if (!report.result) {
+      lines.push(`${mark} ${report.url} (${report.strategy})  error: ${report.error}`);
+      continue;
+    }
+    const { score, grade, vitals, runs } = report.result;
+    lines.push(
+      `${mark} ${report.url} (${report.strategy})  ${score} ${grade}` +
+      `  LCP ${formatMs(vitals.lcp)}  CLS ${formatCls(vitals.cls)}  TBT ${formatMs(vitals.tbt)}` +
+      (runs ? `  median of ${runs.scores.length} runs: ${runs.scores.join(', ')}` : ''),
+    );
+    for (const f of report.failures) {
+      const op = f.unit === 'score' ? '<' : '>';
+      lines.push(`    ${f.label} ${formatBudgetValue(f.actual, f.unit)} ${op} ${formatBudgetValue(f.limit, f.unit)}`);
+    }
+  }
+
+  const failed = reports.filter((r) => !r.passed).length;
+  lines.push('');
+  lines.push(failed === 0 ? `All ${reports.length} runs passed` : `${failed} of ${reports.length} runs failed`);
+  return lines.join('\n');
+}
+
+export function formatJson(reports: RunReport[]): string {
+  return JSON.stringify({
+    passed: reports.every((r) => r.passed),
+    runs: reports.map((r) => ({
+      url: r.url,
+      strategy: r.strategy,
+      passed: r.passed,
+      score: r.result?.score ?? null,
+      grade: r.result?.grade ?? null,
+      vitals: r.result?.vitals ?? null,
+      runs: r.result?.runs ?? null,
+      budget: r.budget ?? null,
+      failures: r.failures,
+      error: r.error ?? null,
+    })),
+  }, null, 2);
+}
+
+const TABLE_METRICS: { label: string; value: (r: SpeedTestResult) => string }[] = [
+  { label: 'Score', value: (r) => String(r.score) },
+  { label: 'LCP', value: (r) => formatMs(r.vitals.lcp) },
+  { label: 'FCP', value: (r) => formatMs(r.vitals.fcp) },
+  { label: 'CLS', value: (r) => formatCls(r.vitals.cls) },
+  { label: 'TBT', value: (r) => formatMs(r.vitals.tbt) },
+  { label: 'TTFB', value: (r) => formatMs(r.vitals.ttfb) },
+];
+
+// One aligned row per page, for crawls where a line per run gets hard to scan
+export function formatTable(reports: RunReport[]): string {
+  const rows = reports.map((r) => [
+    r.passed ? '✔' : '✖',
+    `${r.url.replace(/^https?:\/\//, '')} (${r.strategy})`,
+    ...TABLE_METRICS.map((m) => (r.result ? m.value(r.result) : '')),
+    r.error ?? r.failures.map((f) => f.label).join(', '),
+  ]);
+  const header = ['', 'Page', ...TABLE_METRICS.map((m) => m.label), ''];
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((row) => row[i].length)));
+  // Text columns are left-aligned, metrics right-aligned
+  const line = (cells: string[]) => cells
+    .map((cell, i) => (i >= 2 && i < cells.length - 1 ? cell.padStart(widths[i]) : cell.padEnd(widths[i])))
+    .join('  ')
+    .trimEnd();
+
+  const failed = reports.filter((r) => !r.passed).length;
+  return [
+    line(header),
+    ...rows.map(line),
+    '',
+    failed === 0 ? `All ${reports.length} pages passed` : `${failed} of ${reports.length} pages failed`,
+  ].join('\n');
+}
@@ -0,0 +1,173 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { ArrowDown, ArrowUp, CheckCircle2, Clock, Loader2, RotateCw, XCircle, MinusCircle } from 'lucide-react';
+import { aggregateResults, getBatchValue, BATCH_METRICS, type BatchMetric, type MetricAggregate } from '@/lib/batch';
+import { formatCls, formatMs, getRatingColor, getScoreColor, getVitalRating } from '@/lib/utils';
+import type { BatchItem, BatchStatus, SpeedTestResult } from '@/types';
+
+interface BatchTableProps {
+  items: BatchItem[];
+}
+
+type SortKey = 'url' | 'status' | BatchMetric;
+
+const METRIC_LABELS: Record<BatchMetric, string> = {
+  score: 'Score',
+  lcp: 'LCP',
+  fcp: 'FCP',
+  cls: 'CLS',
+  tbt: 'TBT',
+  si: 'SI',
+  ttfb: 'TTFB',
+};
+
+const STATUS_ORDER: BatchStatus[] = ['running', 'retrying', 'queued', 'done', 'failed', 'cancelled'];
+
+const AGGREGATES: { key: keyof MetricAggregate; label: string }[] = [
+  { key: 'min', label: 'Min' },
+  { key: 'median', label: 'Median' },
+  { key: 'mean', label: 'Mean' },
+  { key: 'max', label: 'Max' },
+];
+
+function formatMetric(metric: BatchMetric, value: number | null): string {
+  if (value === null) return '—';
+  if (metric === 'score') return String(Math.round(value));
+  return metric === 'cls' ? formatCls(value) : formatMs(value);
+}
+
+function metricColor(metric: BatchMetric, value: number | null): string {
+  if (value === null) return 'text-muted';
+  return metric === 'score' ? getScoreColor(value) : getRatingColor(getVitalRating(metric, value));
+}
+
+function StatusIcon({ item }: { item: BatchItem }) {
+  switch (item.status) {
+    case 'queued': return <Clock className="w-4 h-4 text-muted" />;
+    case 'running': return <Loader2 className="w-4 h-4 text-teal animate-spin" />;
+    case 'retrying': return <RotateCw className="w-4 h-4 text-yellow" />;
+    case 'done': return <CheckCircle2 className="w-4 h-4 text-green" />;
+    case 'failed': return <XCircle className="w-4 h-4 text-red" />;
+    case 'cancelled': return <MinusCircle className="w-4 h-4 text-muted" />;
+  }
+}
+
+export default function BatchTable({ items }: BatchTableProps) {
+  const [sortKey, setSortKey] = useState<SortKey>('status');
+  const [ascending, setAscending] = useState(true);
+
+  const sorted = useMemo(() => {
+    const value = (item: BatchItem): number | string | null => {
+      if (sortKey === 'url') return item.url;
+      if (sortKey === 'status') return STATUS_ORDER.indexOf(item.status);
+      return item.result ? getBatchValue(item.result, sortKey) : null;
+    };
+    return items
+      .map((item, index) => ({ item, index }))
+      .sort((a, b) => {
+        const va = value(a.item);
+        const vb = value(b.item);
+        // Missing values sink to the bottom in both directions
+        if (va === null || vb === null) return va === vb ? a.index - b.index : va === null ? 1 : -1;
+        const order = typeof va === 'string' ? va.localeCompare(vb as string) : va - (vb as number);
+        return (ascending ? order : -order) || a.index - b.index;
+      });
+  }, [items, sortKey, ascending]);
+
+  const results = useMemo(
+    () => items.map((i) => i.result).filter((r): r is SpeedTestResult => r !== null),
+    [items],
+  );
+  const aggregates = useMemo(() => aggregateResults(results), [results]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setAscending((a) => !a);
+    } else {
+      setSortKey(key);
+      // Best first: highest score, lowest timings
+      setAscending(key !== 'score');
+    }
+  };
+
+  const header = (key: SortKey, label: string, className = '') => (
+    <th className={`px-3 py-2 font-medium ${className}`}>
+      <button onClick={() => handleSort(key)} className="inline-flex items-center gap-1 hover:text-foreground transition-colors">
+        {label}
+        {sortKey === key && (ascending ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />)}
+      </button>
+    </th>
+  );
+
+  return (
+    <div className="rounded-xl border border-border bg-surface overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-border text-xs text-muted text-left">
+            {header('status', '', 'w-8')}
+            {header('url', 'URL')}
+            {BATCH_METRICS.map((metric) => (
+              <th key={metric} className="px-3 py-2 font-medium text-right">
+                <button onClick={() => handleSort(metric)} className="inline-flex items-center gap-1 hover:text-foreground transition-colors">
+                  {sortKey === metric && (ascending ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />)}
+                  {METRIC_LABELS[metric]}
+                </button>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {sorted.map(({ item, index }) => (
+            <tr key={index} className="border-b border-border/50 hover:bg-surface-2/50">
+              <td className="px-3 py-2" title={item.status}>
+                <StatusIcon item={item} />
+              </td>
+              <td className="px-3 py-2 max-w-xs">
+                {item.result ? (
+                  <Link href={`/report/${item.result.id}`} className="font-mono text-teal hover:underline truncate block">
+                    {item.url.replace(/^https?:\/\//, '')}
+                  </Link>
+                ) : (
+                  <span className="font-mono text-muted truncate block">{item.url.replace(/^https?:\/\//, '')}</span>
+                )}
+                {item.error && item.status !== 'done' && (
+                  <span className={`text-xs block truncate ${item.status === 'failed' ? 'text-red' : 'text-muted'}`} title={item.error}>
+                    {item.status === 'retrying' ? `Rate limited, retrying (attempt ${item.attempts})` : item.error}
+                  </span>
+                )}
+              </td>
+              {BATCH_METRICS.map((metric) => {
+                const value = item.result ? getBatchValue(item.result, metric) : null;
+                return (
+                  <td key={metric} className={`px-3 py-2 text-right tabular-nums ${metricColor(metric, value)} ${metric === 'score' ? 'font-semibold' : ''}`}>
+                    {item.result ? formatMetric(metric, value) : ''}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+        {results.length > 1 && (
+          <tfoot>
+            {AGGREGATES.map(({ key, label }) => (
+              <tr key={key} className="border-t border-border text-xs">
+                <td />
+                <td className="px-3 py-1.5 text-muted font-medium uppercase tracking-wider">{label}</td>
+                {BATCH_METRICS.map((metric) => {
+                  const value = aggregates[metric]?.[key] ?? null;
+                  return (
+                    <td key={metric} className={`px-3 py-1.5 text-right tabular-nums ${metricColor(metric, value)}`}>
+                      {formatMetric(metric, value)}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tfoot>
+        )}
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import type { SpeedTestResult } from '@/types';
+import { evaluateBudgets, formatBudgetValue } from '@/lib/budgets';
+import { getBudgets } from '@/lib/storage';
+import { ShieldCheck, ShieldAlert, Shield } from 'lucide-react';
+
+interface BudgetPanelProps {
+  result: SpeedTestResult;
+}
+
+export default function BudgetPanel({ result }: BudgetPanelProps) {
+  const [budgets] = useState(getBudgets);
+  const evaluation = useMemo(() => evaluateBudgets(result, budgets), [result, budgets]);
+
+  if (!evaluation) {
+    return (
+      <div className="rounded-xl border border-border bg-surface px-4 py-3 flex items-center gap-3 text-sm text-muted no-print">
+        <Shield className="w-4 h-4 shrink-0" />
+        <span className="flex-1">No performance budget matches this URL.</span>
+        <Link href="/budgets" className="text-teal hover:underline">Set a budget</Link>
+      </div>
+    );
+  }
+
+  const { passed, violations, checks, pattern } = evaluation;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <h2 className="text-lg font-semibold">Performance Budget</h2>
+        <span className="text-xs text-muted font-mono">{pattern}</span>
+      </div>
+
+      <div className={`rounded-xl border overflow-hidden ${passed ? 'border-green/20 bg-green/5' : 'border-red/20 bg-red/5'}`}>
+        <div className="px-4 py-3 flex items-center gap-3">
+          {passed ? (
+            <ShieldCheck className="w-5 h-5 text-green shrink-0" />
+          ) : (
+            <ShieldAlert className="w-5 h-5 text-red shrink-0" />
+          )}
+          <div className="flex-1 text-sm">
+            <span className={`font-semibold ${passed ? 'text-green' : 'text-red'}`}>
+              {passed ? 'Within budget' : 'Over budget'}
+            </span>
+            <span className="text-muted">
+              {' '}· {checks - violations.length} of {checks} checks passed
+            </span>
+          </div>
+        </div>
+
+        {violations.length > 0 && (
+          <table className="w-full text-sm border-t border-border/50">
+            <thead>
+              <tr className="text-xs text-muted uppercase">
+                <th className="px-4 py-2 text-left font-medium">Metric</th>
+                <th className="px-4 py-2 text-right font-medium">Actual</th>
+                <th className="px-4 py-2 text-right font-medium">Budget</th>
+                <th className="px-4 py-2 text-right font-medium">Over by</th>
+              </tr>
+            </thead>
+            <tbody>
+              {violations.map((v) => (
+                <tr key={v.metric} className="border-t border-border/30">
+                  <td className="px-4 py-2 font-medium">{v.label}</td>
+                  <td className="px-4 py-2 text-right tabular-nums text-red">{formatBudgetValue(v.actual, v.unit)}</td>
+                  <td className="px-4 py-2 text-right tabular-nums text-muted">
+                    {v.unit === 'score' ? '≥ ' : '≤ '}{formatBudgetValue(v.limit, v.unit)}
+                  </td>
+                  <td className="px-4 py-2 text-right tabular-nums">
+                    {formatBudgetValue(Math.abs(v.actual - v.limit), v.unit)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+'use client';
+
+import type { LighthouseCategory } from '@/types';
+import ScoreRing from './ScoreRing';
+import { CATEGORIES, scoreToGrade } from '@/lib/api';
+import { getCategoryLabel } from '@/lib/utils';
+
+interface CategoryScoresProps {
+  scores: Partial<Record<LighthouseCategory, number>>;
+}
+
+export default function CategoryScores({ scores }: CategoryScoresProps) {
+  const fetched = CATEGORIES.filter((c) => scores[c] !== undefined);
+
+  // Performance alone is already covered by the main score ring
+  if (fetched.length <= 1) return null;
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-lg font-semibold">Lighthouse Categories</h2>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {fetched.map((category) => {
+          const score = scores[category]!;
+          return (
+            <div key={category} className="rounded-xl border border-border bg-surface p-4 flex flex-col items-center gap-3">
+              <ScoreRing score={score} grade={scoreToGrade(score)} size={110} />
+              <span className="text-sm font-medium">{getCategoryLabel(category)}</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+'use client';
+
+import type { CriticalPath, RequestChainNode } from '@/types';
+import { formatBytes, formatMs } from '@/lib/utils';
+import { GitBranch, Ban } from 'lucide-react';
+
+interface CriticalPathPanelProps {
+  criticalPath?: CriticalPath;
+}
+
+function splitUrl(url: string): { host: string; path: string } {
+  try {
+    const u = new URL(url);
+    return { host: u.hostname, path: u.pathname + u.search };
+  } catch {
+    return { host: '', path: url };
+  }
+}
+
+function ChainNode({ node, blocking, depth }: { node: RequestChainNode; blocking: Set<string>; depth: number }) {
+  const { host, path } = splitUrl(node.url);
+  const isBlocking = blocking.has(node.url);
+  return (
+    <li>
+      <div
+        className="flex items-center gap-3 py-1 pr-4 text-xs hover:bg-surface-2/50"
+        style={{ paddingLeft: `${1 + depth * 1.25}rem` }}
+      >
+        {depth > 0 && <span className="text-muted/50 shrink-0">└</span>}
+        <div className="flex-1 min-w-0 truncate" title={node.url}>
+          <span className={isBlocking ? 'text-red' : 'text-foreground'}>{path}</span>
+          <span className="text-muted ml-2">{host}</span>
+        </div>
+        {isBlocking && (
+          <span className="shrink-0 px-1.5 py-0.5 rounded bg-red/10 text-red text-[10px] uppercase tracking-wider">Blocking</span>
+        )}
+        <span className="w-16 shrink-0 text-right tabular-nums text-muted">{formatBytes(node.transferSize)}</span>
+        <span className="w-16 shrink-0 text-right tabular-nums">{formatMs(node.endTime)}</span>
+      </div>
+      {node.children.length > 0 && (
+        <ul>
+          {node.children.map((child, i) => (
+            <ChainNode key={`${child.url}-${i}`} node={child} blocking={blocking} depth={depth + 1} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+export default function CriticalPathPanel({ criticalPath }: CriticalPathPanelProps) {
+  if (!criticalPath || (criticalPath.chains.length === 0 && criticalPath.renderBlocking.length === 0)) return null;
+
+  const { chains, longestChain, renderBlocking, renderBlockingSavingsMs } = criticalPath;
+  const blocking = new Set(renderBlocking.map((item) => item.url));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <GitBranch className="w-5 h-5 text-muted" />
+        <h2 className="text-lg font-semibold">Critical Path</h2>
+      </div>
+
+      {renderBlocking.length > 0 && (
+        <div className="rounded-xl border border-red/20 bg-surface overflow-hidden">
+          <div className="px-4 py-3 border-b border-border flex items-center gap-2 text-sm">
+            <Ban className="w-4 h-4 text-red" />
+            <span className="font-medium">{renderBlocking.length} render-blocking {renderBlocking.length === 1 ? 'resource' : 'resources'}</span>
+            {renderBlockingSavingsMs > 0 && (
+              <span className="text-muted">· first paint could be {formatMs(renderBlockingSavingsMs)} sooner</span>
+            )}
+          </div>
+          <ul>
+            {renderBlocking.map((item) => (
+              <li key={item.url} className="flex items-center gap-3 px-4 py-1.5 border-b border-border/30 last:border-0 text-xs">
+                <span className="flex-1 min-w-0 truncate font-mono" title={item.url}>{item.url}</span>
+                <span className="w-16 shrink-0 text-right tabular-nums text-muted">{formatBytes(item.transferSize)}</span>
+                <span className="w-16 shrink-0 text-right tabular-nums text-red">{formatMs(item.wastedMs)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {chains.length > 0 && (
+        <div className="rounded-xl border border-border bg-surface overflow-hidden">
+          <div className="px-4 py-3 border-b border-border flex items-center justify-between gap-3 flex-wrap text-sm">
+            <span className="font-medium">Request chains</span>
+            {longestChain && (
+              <span className="text-xs text-muted">
+                Longest: {longestChain.length} requests · {formatMs(longestChain.duration)} · {formatBytes(longestChain.transferSize)}
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-3 px-4 py-1.5 border-b border-border/50 text-xs text-muted">
+            <span className="flex-1">Request</span>
+            <span className="w-16 text-right">Size</span>
+            <span className="w-16 text-right">Finished</span>
+          </div>
+          <ul className="py-1 max-h-96 overflow-y-auto">
+            {chains.map((chain, i) => (
+              <ChainNode key={`${chain.url}-${i}`} node={chain} blocking={blocking} depth={0} />
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
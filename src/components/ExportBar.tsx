@@ -1,46 +1,91 @@
 'use client';
 
 import type { SpeedTestResult } from '@/types';
-import { Download, Share2, Copy, Check } from 'lucide-react';
+import { Download, Share2, Copy, Check, Loader2, Sheet } from 'lucide-react';
 import { useState, useCallback } from 'react';
+import { BASE_PATH, createSnapshot, requestPdfReport } from '@/lib/client';
+import { getFirstPartyDomains, saveSharedSnapshot } from '@/lib/storage';
+import { toHar } from '@/lib/har';
+import { AUDIT_COLUMNS, RESOURCE_COLUMNS, csvBlob, toCsv } from '@/lib/csv';
+import { downloadBlob } from '@/lib/utils';
 
 interface ExportBarProps {
   result: SpeedTestResult;
+  readOnly?: boolean; // hides sharing, e.g. on a shared snapshot
 }
 
-export default function ExportBar({ result }: ExportBarProps) {
+const EXPIRY_OPTIONS: { label: string; seconds: number | null }[] = [
+  { label: 'Never expires', seconds: null },
+  { label: 'Expires in 1 day', seconds: 24 * 60 * 60 },
+  { label: 'Expires in 7 days', seconds: 7 * 24 * 60 * 60 },
+  { label: 'Expires in 30 days', seconds: 30 * 24 * 60 * 60 },
+];
+
+export default function ExportBar({ result, readOnly = false }: ExportBarProps) {
   const [copied, setCopied] = useState(false);
+  const [sharing, setSharing] = useState(false);
+  const [shareError, setShareError] = useState('');
+  const [expiry, setExpiry] = useState(0);
+  const [exporting, setExporting] = useState(false);
 
-  const handleCopyLink = useCallback(() => {
-    const shareUrl = `${window.location.origin}/?url=${encodeURIComponent(result.url)}`;
+  const handleCopyLink = useCallback(async () => {
+    setSharing(true);
+    setShareError('');
+    let shareUrl: string;
+    try {
+      const snapshot = await createSnapshot(result, EXPIRY_OPTIONS[expiry].seconds, getFirstPartyDomains());
+      saveSharedSnapshot(snapshot);
+      shareUrl = `${window.location.origin}${BASE_PATH}/r/${snapshot.id}`;
+    } catch (err) {
+      // A link that re-runs the test would not show this result, so don't hand one out
+      setShareError(err instanceof Error ? `Could not create a snapshot: ${err.message}` : 'Could not create a snapshot');
+      return;
+    } finally {
+      setSharing(false);
+    }
     navigator.clipboard.writeText(shareUrl).then(() => {
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     });
-  }, [result.url]);
+  }, [result, expiry]);
 
-  const handleExportPdf = useCallback(() => {
-    // Use browser print as PDF export
-    window.print();
-  }, []);
+  const handleExportPdf = useCallback(async () => {
+    setExporting(true);
+    try {
+      downloadBlob(await requestPdfReport(result), `speedstein-${new URL(result.url).hostname}-${Date.now()}.pdf`);
+    } catch {
+      // No report API available (e.g. a static host), so print the page instead
+      window.print();
+    } finally {
+      setExporting(false);
+    }
+  }, [result]);
 
   const handleExportJson = useCallback(() => {
     const blob = new Blob([JSON.stringify(result, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `speedstein-${new URL(result.url).hostname}-${Date.now()}.json`;
-    a.click();
-    URL.revokeObjectURL(url);
+    downloadBlob(blob, `speedstein-${new URL(result.url).hostname}-${Date.now()}.json`);
+  }, [result]);
+
+  const handleExportHar = useCallback(() => {
+    const blob = new Blob([JSON.stringify(toHar(result), null, 2)], { type: 'application/json' });
+    downloadBlob(blob, `speedstein-${new URL(result.url).hostname}-${Date.now()}.har`);
+  }, [result]);
+
+  const handleExportCsv = useCallback((kind: 'resources' | 'audits') => {
+    const csv = kind === 'resources'
+      ? toCsv(RESOURCE_COLUMNS, result.resources)
+      : toCsv(AUDIT_COLUMNS, result.audits);
+    downloadBlob(csvBlob(csv), `speedstein-${new URL(result.url).hostname}-${kind}-${Date.now()}.csv`);
   }, [result]);
 
   return (
     <div className="flex items-center gap-2 no-print flex-wrap">
       <button
         onClick={handleExportPdf}
-        className="flex items-center gap-2 px-4 py-2 text-sm rounded-lg bg-surface border border-border hover:bg-surface-2 transition-colors"
+        disabled={exporting}
+        className="flex items-center gap-2 px-4 py-2 text-sm rounded-lg bg-surface border border-border hover:bg-surface-2 transition-colors disabled:opacity-60"
       >
-        <Download className="w-4 h-4" />
+        {exporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
         Export PDF
       </button>
       <button
@@ -51,21 +96,66 @@ export default function ExportBar({ result }: ExportBarProps) {
         Export JSON
       </button>
       <button
-        onClick={handleCopyLink}
-        className="flex items-center gap-2 px-4 py-2 text-sm rounded-lg bg-surface border border-border hover:bg-surface-2 transition-colors"
+        onClick={handleExportHar}
+        disabled={result.resources.length === 0}
+        className="flex items-center gap-2 px-4 py-2 text-sm rounded-lg bg-surface border border-border hover:bg-surface-2 transition-colors disabled:opacity-40"
+      >
+        <Download className="w-4 h-4" />
+        Export HAR
+      </button>
+      <button
+        onClick={() => handleExportCsv('resources')}
+        disabled={result.resources.length === 0}
+        className="flex items-center gap-2 px-4 py-2 text-sm rounded-lg bg-surface border border-border hover:bg-surface-2 transition-colors disabled:opacity-40"
+      >
+        <Sheet className="w-4 h-4" />
+        Resources CSV
+      </button>
+      <button
+        onClick={() => handleExportCsv('audits')}
+        disabled={result.audits.length === 0}
+        className="flex items-center gap-2 px-4 py-2 text-sm rounded-lg bg-surface border border-border hover:bg-surface-2 transition-colors disabled:opacity-40"
       >
-        {copied ? (
-          <>
-            <Check className="w-4 h-4 text-green" />
-            Copied!
-          </>
-        ) : (
-          <>
-            <Share2 className="w-4 h-4" />
-            Share Link
-          </>
-        )}
+        <Sheet className="w-4 h-4" />
+        Audits CSV
       </button>
+      {!readOnly && (
+        <div className="flex items-center rounded-lg bg-surface border border-border overflow-hidden">
+          <button
+            onClick={handleCopyLink}
+            disabled={sharing}
+            className="flex items-center gap-2 px-4 py-2 text-sm hover:bg-surface-2 transition-colors disabled:opacity-60"
+          >
+            {sharing ? (
+              <>
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Sharing...
+              </>
+            ) : copied ? (
+              <>
+                <Check className="w-4 h-4 text-green" />
+                Copied!
+              </>
+            ) : (
+              <>
+                <Share2 className="w-4 h-4" />
+                Share Link
+              </>
+            )}
+          </button>
+          <select
+            value={expiry}
+            onChange={(e) => setExpiry(Number(e.target.value))}
+            aria-label="Snapshot expiry"
+            className="px-2 py-2 text-xs text-muted bg-surface border-l border-border outline-none"
+          >
+            {EXPIRY_OPTIONS.map((option, i) => (
+              <option key={option.label} value={i}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      )}
+      {!readOnly && shareError && <span className="text-xs text-red">{shareError}</span>}
       <button
         onClick={() => {
           navigator.clipboard.writeText(
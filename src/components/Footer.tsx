@@ -11,7 +11,7 @@ export default function Footer() {
           <span>Speedstein — powered by Google Lighthouse</span>
         </div>
         <div className="flex items-center gap-4">
-          <span>Mobile analysis</span>
+          <span>Mobile &amp; desktop analysis</span>
           <span>·</span>
           <span>Free &amp; open</span>
         </div>
@@ -22,6 +22,12 @@ export default function Header() {
           >
             Test
           </Link>
+          <Link
+            href="/batch"
+            className="px-3 py-1.5 text-sm text-muted hover:text-foreground rounded-md hover:bg-surface-2 transition-colors"
+          >
+            Batch
+          </Link>
           <Link
             href="/history"
             className="px-3 py-1.5 text-sm text-muted hover:text-foreground rounded-md hover:bg-surface-2 transition-colors"
@@ -34,6 +40,30 @@ export default function Header() {
           >
             Compare
           </Link>
+          <Link
+            href="/monitors"
+            className="px-3 py-1.5 text-sm text-muted hover:text-foreground rounded-md hover:bg-surface-2 transition-colors"
+          >
+            Monitors
+          </Link>
+          <Link
+            href="/alerts"
+            className="px-3 py-1.5 text-sm text-muted hover:text-foreground rounded-md hover:bg-surface-2 transition-colors"
+          >
+            Alerts
+          </Link>
+          <Link
+            href="/budgets"
+            className="px-3 py-1.5 text-sm text-muted hover:text-foreground rounded-md hover:bg-surface-2 transition-colors"
+          >
+            Budgets
+          </Link>
+          <Link
+            href="/har"
+            className="px-3 py-1.5 text-sm text-muted hover:text-foreground rounded-md hover:bg-surface-2 transition-colors"
+          >
+            HAR
+          </Link>
         </nav>
       </div>
     </header>
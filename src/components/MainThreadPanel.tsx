@@ -0,0 +1,134 @@
+'use client';
+
+import type { BootupTime, MainThreadBreakdown, MainThreadCategory } from '@/types';
+import { formatMs } from '@/lib/utils';
+import { Cpu } from 'lucide-react';
+
+interface MainThreadPanelProps {
+  mainThread?: MainThreadBreakdown;
+  bootup?: BootupTime;
+  tbt: number | null;
+}
+
+const CATEGORY_CONFIG: Record<MainThreadCategory, { label: string; color: string }> = {
+  scriptEvaluation: { label: 'Script evaluation', color: '#eab308' },
+  scriptParseCompile: { label: 'Script parsing & compile', color: '#f97316' },
+  styleLayout: { label: 'Style & layout', color: '#8b5cf6' },
+  paintCompositeRender: { label: 'Rendering', color: '#14b8a6' },
+  parseHTML: { label: 'HTML & CSS parsing', color: '#3b82f6' },
+  garbageCollection: { label: 'Garbage collection', color: '#ec4899' },
+  other: { label: 'Other', color: '#737373' },
+};
+
+function scriptName(url: string): { name: string; host: string } {
+  try {
+    const u = new URL(url);
+    return { name: u.pathname.split('/').pop() || u.pathname, host: u.hostname };
+  } catch {
+    // Lighthouse reports work it cannot tie to a script under a plain label
+    return { name: url, host: '' };
+  }
+}
+
+export default function MainThreadPanel({ mainThread, bootup, tbt }: MainThreadPanelProps) {
+  if (!mainThread && !bootup?.scripts.length) return null;
+
+  const maxScript = Math.max(...(bootup?.scripts.map((s) => s.total) ?? []), 1);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <div className="flex items-center gap-2">
+          <Cpu className="w-5 h-5 text-muted" />
+          <h2 className="text-lg font-semibold">Main-Thread Work</h2>
+        </div>
+        <div className="text-sm text-muted">
+          {mainThread && <>{formatMs(mainThread.totalMs)} total</>}
+          {mainThread && tbt !== null && ' · '}
+          {tbt !== null && <>{formatMs(tbt)} blocking</>}
+        </div>
+      </div>
+
+      {mainThread && mainThread.totalMs > 0 && (
+        <div className="rounded-xl border border-border bg-surface p-4 space-y-4">
+          {/* Stacked bar */}
+          <div className="h-6 rounded-full overflow-hidden flex bg-background">
+            {mainThread.categories.map((item) => {
+              const { label, color } = CATEGORY_CONFIG[item.category];
+              const percentage = (item.duration / mainThread.totalMs) * 100;
+              return (
+                <div
+                  key={item.category}
+                  className="h-full transition-all duration-500 first:rounded-l-full last:rounded-r-full"
+                  style={{ width: `${Math.max(percentage, 1)}%`, backgroundColor: color, opacity: 0.8 }}
+                  title={`${label}: ${formatMs(item.duration)} (${percentage.toFixed(1)}%)`}
+                />
+              );
+            })}
+          </div>
+
+          {/* Legend grid */}
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            {mainThread.categories.map((item) => {
+              const { label, color } = CATEGORY_CONFIG[item.category];
+              return (
+                <div key={item.category} className="flex items-center gap-3 p-2 rounded-lg hover:bg-surface-2 transition-colors">
+                  <div className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: color }} />
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium">{label}</div>
+                    <div className="text-xs text-muted">{formatMs(item.duration)}</div>
+                  </div>
+                  <div className="text-xs text-muted tabular-nums shrink-0">
+                    {((item.duration / mainThread.totalMs) * 100).toFixed(1)}%
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {bootup && bootup.scripts.length > 0 && (
+        <div className="rounded-xl border border-border bg-surface overflow-x-auto max-h-96 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-border text-xs text-muted uppercase">
+                <th className="px-4 py-2 text-left font-medium">Script</th>
+                <th className="px-4 py-2 text-right font-medium">Total CPU</th>
+                <th className="px-4 py-2 text-right font-medium">Evaluation</th>
+                <th className="px-4 py-2 text-right font-medium">Parse & compile</th>
+                <th className="px-4 py-2 font-medium w-1/5" />
+              </tr>
+            </thead>
+            <tbody>
+              {bootup.scripts.map((script, i) => {
+                const { name, host } = scriptName(script.url);
+                return (
+                  <tr key={`${script.url}-${i}`} className="border-b border-border/30 last:border-0">
+                    <td className="px-4 py-2 max-w-xs" title={script.url}>
+                      <div className="truncate font-mono text-xs">{name}</div>
+                      {host && <div className="truncate text-xs text-muted">{host}</div>}
+                    </td>
+                    <td className="px-4 py-2 text-right tabular-nums font-medium">{formatMs(script.total)}</td>
+                    <td className="px-4 py-2 text-right tabular-nums text-muted">{formatMs(script.scripting)}</td>
+                    <td className="px-4 py-2 text-right tabular-nums text-muted">{formatMs(script.parseCompile)}</td>
+                    <td className="px-4 py-2">
+                      <div className="h-2 rounded-full overflow-hidden flex bg-background" style={{ width: `${(script.total / maxScript) * 100}%` }}>
+                        <div className="h-full" style={{ flexGrow: script.scripting, backgroundColor: CATEGORY_CONFIG.scriptEvaluation.color }} />
+                        <div className="h-full" style={{ flexGrow: script.parseCompile, backgroundColor: CATEGORY_CONFIG.scriptParseCompile.color }} />
+                        <div className="h-full bg-muted/40" style={{ flexGrow: Math.max(script.total - script.scripting - script.parseCompile, 0) }} />
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <div className="px-4 py-2 border-t border-border text-xs text-muted">
+            {formatMs(bootup.totalMs)} of JavaScript execution. Lighthouse leaves out scripts under 50 ms.
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,22 +1,34 @@
 'use client';
 
 import { useState } from 'react';
-import type { AuditItem } from '@/types';
+import type { AuditDetails, AuditDetailsHeading, AuditItem } from '@/types';
 import { AlertTriangle, AlertCircle, Info, ChevronDown, ChevronUp } from 'lucide-react';
+import { CATEGORIES } from '@/lib/api';
+import { formatBytes, formatMs, getCategoryLabel } from '@/lib/utils';
 
 interface RecommendationsProps {
   audits: AuditItem[];
 }
 
+type SortMode = 'impact' | 'savings';
+
 const IMPACT_CONFIG = {
   high: { icon: AlertTriangle, color: 'text-red', bg: 'bg-red/5 border-red/15', label: 'High Impact' },
   medium: { icon: AlertCircle, color: 'text-yellow', bg: 'bg-yellow/5 border-yellow/15', label: 'Medium Impact' },
   low: { icon: Info, color: 'text-muted', bg: 'bg-surface-2 border-border', label: 'Low Impact' },
 };
 
-export default function Recommendations({ audits }: RecommendationsProps) {
-  const [expandedId, setExpandedId] = useState<string | null>(null);
-  const [showAll, setShowAll] = useState(false);
+// Audits without estimated savings keep their impact order below the rest
+function bySavings(audits: AuditItem[]): AuditItem[] {
+  return [...audits].sort((a, b) =>
+    (b.overallSavingsMs ?? 0) - (a.overallSavingsMs ?? 0) || (b.overallSavingsBytes ?? 0) - (a.overallSavingsBytes ?? 0));
+}
+
+export default function Recommendations({ audits: allAudits }: RecommendationsProps) {
+  const [sortMode, setSortMode] = useState<SortMode>('savings');
+
+  const hasSavings = allAudits.some((a) => a.overallSavingsMs || a.overallSavingsBytes);
+  const audits = hasSavings && sortMode === 'savings' ? bySavings(allAudits) : allAudits;
 
   if (audits.length === 0) {
     return (
@@ -27,33 +39,83 @@ export default function Recommendations({ audits }: RecommendationsProps) {
     );
   }
 
-  const grouped = {
-    high: audits.filter((a) => a.impact === 'high'),
-    medium: audits.filter((a) => a.impact === 'medium'),
-    low: audits.filter((a) => a.impact === 'low'),
-  };
-
-  const displayed = showAll ? audits : audits.slice(0, 10);
+  const byCategory = CATEGORIES
+    .map((category) => ({ category, audits: audits.filter((a) => a.category === category) }))
+    .filter((group) => group.audits.length > 0);
 
   return (
     <div className="space-y-4">
-      <div className="flex items-center justify-between">
+      <div className="flex items-center justify-between flex-wrap gap-3">
         <h2 className="text-lg font-semibold">Recommendations</h2>
-        <div className="flex items-center gap-3 text-xs">
-          {(['high', 'medium', 'low'] as const).map((impact) => {
-            const count = grouped[impact].length;
-            if (count === 0) return null;
-            const config = IMPACT_CONFIG[impact];
-            return (
-              <span key={impact} className={`flex items-center gap-1.5 ${config.color}`}>
-                <config.icon className="w-3 h-3" />
-                {count} {config.label}
-              </span>
-            );
-          })}
+        <div className="flex items-center gap-4 flex-wrap">
+          <ImpactCounts audits={audits} />
+          {hasSavings && (
+            <div className="inline-flex items-center gap-1 p-0.5 rounded-lg bg-surface border border-border text-xs no-print">
+              {(['savings', 'impact'] as const).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => setSortMode(mode)}
+                  className={`px-2.5 py-1 rounded-md transition-colors ${
+                    sortMode === mode
+                      ? 'bg-teal/10 text-teal border border-teal/20'
+                      : 'text-muted hover:text-foreground hover:bg-surface-2 border border-transparent'
+                  }`}
+                >
+                  {mode === 'savings' ? 'By savings' : 'By impact'}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
       </div>
 
+      {byCategory.length === 1 ? (
+        <AuditList audits={audits} />
+      ) : (
+        <div className="space-y-6">
+          {byCategory.map((group) => (
+            <div key={group.category} className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-medium text-muted uppercase tracking-wider">
+                  {getCategoryLabel(group.category)}
+                </h3>
+                <ImpactCounts audits={group.audits} />
+              </div>
+              <AuditList audits={group.audits} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ImpactCounts({ audits }: { audits: AuditItem[] }) {
+  return (
+    <div className="flex items-center gap-3 text-xs">
+      {(['high', 'medium', 'low'] as const).map((impact) => {
+        const count = audits.filter((a) => a.impact === impact).length;
+        if (count === 0) return null;
+        const config = IMPACT_CONFIG[impact];
+        return (
+          <span key={impact} className={`flex items-center gap-1.5 ${config.color}`}>
+            <config.icon className="w-3 h-3" />
+            {count} {config.label}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
+
+function AuditList({ audits }: { audits: AuditItem[] }) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [showAll, setShowAll] = useState(false);
+
+  const displayed = showAll ? audits : audits.slice(0, 10);
+
+  return (
+    <>
       <div className="space-y-2">
         {displayed.map((audit) => {
           const config = IMPACT_CONFIG[audit.impact];
@@ -75,6 +137,11 @@ export default function Recommendations({ audits }: RecommendationsProps) {
                     <div className="text-xs text-muted mt-0.5">{audit.displayValue}</div>
                   )}
                 </div>
+                {audit.savings && (
+                  <div className="hidden sm:block text-xs text-teal tabular-nums whitespace-nowrap" title="Estimated savings">
+                    −{audit.savings}
+                  </div>
+                )}
                 <div className={`px-2 py-0.5 rounded text-xs font-medium ${config.color}`}>
                   {audit.impact}
                 </div>
@@ -89,6 +156,7 @@ export default function Recommendations({ audits }: RecommendationsProps) {
                   <div className="text-sm text-muted leading-relaxed border-t border-border/50 pt-3">
                     {cleanDescription(audit.description)}
                   </div>
+                  {audit.details && <AuditDetailsTable details={audit.details} />}
                 </div>
               )}
             </div>
@@ -104,6 +172,55 @@ export default function Recommendations({ audits }: RecommendationsProps) {
           Show {audits.length - 10} more recommendations
         </button>
       )}
+    </>
+  );
+}
+
+function formatCell(value: string | number | null, heading: AuditDetailsHeading): string {
+  if (value === null || value === '') return '—';
+  if (typeof value === 'string') return value;
+  switch (heading.valueType) {
+    case 'bytes': return formatBytes(value);
+    case 'ms': return formatMs(value);
+    default: return value.toLocaleString();
+  }
+}
+
+function AuditDetailsTable({ details }: { details: AuditDetails }) {
+  const numeric = (h: AuditDetailsHeading) => h.valueType === 'bytes' || h.valueType === 'ms' || h.valueType === 'numeric';
+
+  return (
+    <div className="mt-3 rounded-lg border border-border/50 bg-background/40 overflow-x-auto max-h-80 overflow-y-auto">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="border-b border-border/50 text-muted">
+            {details.headings.map((h) => (
+              <th key={h.key} className={`px-3 py-2 font-medium whitespace-nowrap ${numeric(h) ? 'text-right' : 'text-left'}`}>
+                {h.label}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {details.items.map((item, i) => (
+            <tr key={i} className="border-b border-border/30 last:border-0 align-top">
+              {details.headings.map((h) => {
+                const text = formatCell(item[h.key], h);
+                return h.valueType === 'url' ? (
+                  <td key={h.key} className="px-3 py-1.5 font-mono break-all min-w-48" title={text}>{text}</td>
+                ) : (
+                  <td key={h.key} className={`px-3 py-1.5 ${numeric(h) ? 'text-right tabular-nums whitespace-nowrap' : ''}`}>{text}</td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {details.totalItems > details.items.length && (
+        <div className="px-3 py-2 border-t border-border/50 text-xs text-muted">
+          Showing {details.items.length} of {details.totalItems}
+        </div>
+      )}
     </div>
   );
 }
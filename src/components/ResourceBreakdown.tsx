@@ -1,7 +1,7 @@
 'use client';
 
 import type { ResourceItem } from '@/types';
-import { formatBytes, getResourceTypeColor } from '@/lib/utils';
+import { formatBytes, summarizeResources } from '@/lib/utils';
 import { useMemo } from 'react';
 import { HardDrive } from 'lucide-react';
 
@@ -9,38 +9,8 @@ interface ResourceBreakdownProps {
   resources: ResourceItem[];
 }
 
-const TYPE_LABELS: Record<string, string> = {
-  script: 'JavaScript',
-  stylesheet: 'CSS',
-  image: 'Images',
-  font: 'Fonts',
-  document: 'HTML',
-  other: 'Other',
-};
-
 export default function ResourceBreakdown({ resources }: ResourceBreakdownProps) {
-  const breakdown = useMemo(() => {
-    const groups: Record<string, { count: number; size: number }> = {};
-    let totalSize = 0;
-
-    for (const r of resources) {
-      if (!groups[r.type]) groups[r.type] = { count: 0, size: 0 };
-      groups[r.type].count += 1;
-      groups[r.type].size += r.transferSize;
-      totalSize += r.transferSize;
-    }
-
-    return Object.entries(groups)
-      .map(([type, data]) => ({
-        type,
-        label: TYPE_LABELS[type] || type,
-        count: data.count,
-        size: data.size,
-        percentage: totalSize > 0 ? (data.size / totalSize) * 100 : 0,
-        color: getResourceTypeColor(type),
-      }))
-      .sort((a, b) => b.size - a.size);
-  }, [resources]);
+  const breakdown = useMemo(() => summarizeResources(resources), [resources]);
 
   const totalSize = resources.reduce((sum, r) => sum + r.transferSize, 0);
 
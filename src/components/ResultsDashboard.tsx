@@ -1,6 +1,7 @@
 'use client';
 
-import type { SpeedTestResult } from '@/types';
+import { useState } from 'react';
+import type { SpeedTestResult, Strategy } from '@/types';
 import ScoreRing from './ScoreRing';
 import VitalsGrid from './VitalsGrid';
 import WaterfallChart from './WaterfallChart';
@@ -8,16 +9,56 @@ import Recommendations from './Recommendations';
 import ScreenshotTimeline from './ScreenshotTimeline';
 import ExportBar from './ExportBar';
 import ResourceBreakdown from './ResourceBreakdown';
-import { Clock, Globe, Zap } from 'lucide-react';
-import { formatMs, timeAgo } from '@/lib/utils';
+import ThirdPartyPanel from './ThirdPartyPanel';
+import CriticalPathPanel from './CriticalPathPanel';
+import MainThreadPanel from './MainThreadPanel';
+import CategoryScores from './CategoryScores';
+import BudgetPanel from './BudgetPanel';
+import { Clock, Globe, Zap, Smartphone, Monitor, Repeat } from 'lucide-react';
+import { formatMs, timeAgo, getScoreColor } from '@/lib/utils';
 
 interface ResultsDashboardProps {
-  result: SpeedTestResult;
+  results: SpeedTestResult[];
+  readOnly?: boolean; // a frozen snapshot: no sharing, no viewer-specific budget
+  firstPartyDomains?: string[]; // the snapshot creator's, used when readOnly
 }
 
-export default function ResultsDashboard({ result }: ResultsDashboardProps) {
+const STRATEGY_TABS = {
+  mobile: { label: 'Mobile', icon: Smartphone },
+  desktop: { label: 'Desktop', icon: Monitor },
+};
+
+export default function ResultsDashboard({ results, readOnly = false, firstPartyDomains }: ResultsDashboardProps) {
+  const [active, setActive] = useState<Strategy>(results[0].strategy);
+  const result = results.find((r) => r.strategy === active) ?? results[0];
+
   return (
     <div className="space-y-8 animate-fade-up">
+      {/* Strategy tabs */}
+      {results.length > 1 && (
+        <div className="flex items-center gap-2 no-print">
+          {results.map((r) => {
+            const tab = STRATEGY_TABS[r.strategy];
+            const isActive = r.strategy === result.strategy;
+            return (
+              <button
+                key={r.strategy}
+                onClick={() => setActive(r.strategy)}
+                className={`flex items-center gap-2 px-4 py-2 text-sm rounded-lg border transition-colors ${
+                  isActive
+                    ? 'bg-teal/10 text-teal border-teal/20'
+                    : 'bg-surface border-border text-muted hover:text-foreground hover:bg-surface-2'
+                }`}
+              >
+                <tab.icon className="w-4 h-4" />
+                {tab.label}
+                <span className={`font-semibold tabular-nums ${getScoreColor(r.score)}`}>{r.score}</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
       {/* Header + Score */}
       <div className="rounded-2xl border border-border bg-surface p-6 sm:p-8">
         <div className="flex flex-col sm:flex-row items-center gap-6 sm:gap-10">
@@ -37,6 +78,10 @@ export default function ResultsDashboard({ result }: ResultsDashboardProps) {
             </div>
 
             <div className="flex items-center gap-4 justify-center sm:justify-start text-sm text-muted flex-wrap">
+              <div className="flex items-center gap-1.5">
+                {result.strategy === 'desktop' ? <Monitor className="w-3.5 h-3.5" /> : <Smartphone className="w-3.5 h-3.5" />}
+                <span>{STRATEGY_TABS[result.strategy].label}</span>
+              </div>
               <div className="flex items-center gap-1.5">
                 <Clock className="w-3.5 h-3.5" />
                 <span>{timeAgo(result.timestamp)}</span>
@@ -45,6 +90,14 @@ export default function ResultsDashboard({ result }: ResultsDashboardProps) {
                 <Zap className="w-3.5 h-3.5" />
                 <span>Analyzed in {formatMs(result.fetchTime)}</span>
               </div>
+              {result.runs && (
+                <div className="flex items-center gap-1.5" title={`Scores: ${result.runs.scores.join(', ')}`}>
+                  <Repeat className="w-3.5 h-3.5" />
+                  <span>
+                    Median of {result.runs.scores.length} runs ({Math.min(...result.runs.scores)}–{Math.max(...result.runs.scores)})
+                  </span>
+                </div>
+              )}
             </div>
 
             <div className="flex items-center gap-3 justify-center sm:justify-start flex-wrap">
@@ -56,15 +109,31 @@ export default function ResultsDashboard({ result }: ResultsDashboardProps) {
         </div>
       </div>
 
-      <ExportBar result={result} />
+      <ExportBar result={result} readOnly={readOnly} />
+
+      {!readOnly && <BudgetPanel result={result} />}
+
+      <CategoryScores scores={result.categoryScores} />
 
-      <VitalsGrid vitals={result.vitals} />
+      <VitalsGrid vitals={result.vitals} fieldData={result.fieldData} spread={result.runs?.spread} />
 
       <ScreenshotTimeline screenshots={result.screenshots} finalScreenshot={result.finalScreenshot} />
 
       <ResourceBreakdown resources={result.resources} />
 
-      <WaterfallChart resources={result.resources} />
+      <ThirdPartyPanel result={result} firstPartyDomains={readOnly ? firstPartyDomains ?? [] : undefined} />
+
+      <MainThreadPanel mainThread={result.mainThread} bootup={result.bootup} tbt={result.vitals.tbt} />
+
+      <CriticalPathPanel criticalPath={result.criticalPath} />
+
+      {/* Keyed so a request selected on one strategy's tab doesn't carry over to the other */}
+      <WaterfallChart
+        key={result.strategy}
+        resources={result.resources}
+        renderBlocking={result.criticalPath?.renderBlocking.map((item) => item.url)}
+        fcp={result.vitals.fcp}
+      />
 
       <Recommendations audits={result.audits} />
     </div>
@@ -17,6 +17,7 @@ export default function ScoreRing({ score, grade, size = 180, animate = true }:
   const circumference = 2 * Math.PI * radius;
   const offset = circumference - (displayed / 100) * circumference;
   const color = getScoreColorHex(score);
+  const compact = size < 140;
 
   useEffect(() => {
     if (!animate) {
@@ -68,10 +69,10 @@ export default function ScoreRing({ score, grade, size = 180, animate = true }:
         />
       </svg>
       <div className="absolute inset-0 flex flex-col items-center justify-center">
-        <span className="text-4xl sm:text-5xl font-bold tabular-nums" style={{ color }}>
+        <span className={`${compact ? 'text-3xl' : 'text-4xl sm:text-5xl'} font-bold tabular-nums`} style={{ color }}>
           {displayed}
         </span>
-        <span className="text-lg font-semibold text-muted mt-1">{grade}</span>
+        <span className={`${compact ? 'text-sm' : 'text-lg mt-1'} font-semibold text-muted`}>{grade}</span>
       </div>
     </div>
   );
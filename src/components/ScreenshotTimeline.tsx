@@ -10,6 +10,35 @@ interface ScreenshotTimelineProps {
   finalScreenshot?: string;
 }
 
+interface FilmstripFrameProps {
+  data: string | null; // null before the first paint
+  timing: number;
+  delay?: number; // fade-in delay, ms
+}
+
+export function FilmstripFrame({ data, timing, delay = 0 }: FilmstripFrameProps) {
+  return (
+    <div className="flex flex-col items-center gap-2 animate-fade-up" style={{ animationDelay: `${delay}ms` }}>
+      <div className="w-32 h-24 rounded-lg border border-border overflow-hidden bg-background relative">
+        {data ? (
+          <Image
+            src={data}
+            alt={`Page at ${formatMs(timing)}`}
+            fill
+            className="object-cover object-top"
+            unoptimized
+          />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center text-muted text-xs">
+            No preview
+          </div>
+        )}
+      </div>
+      <span className="text-xs text-muted tabular-nums">{formatMs(timing)}</span>
+    </div>
+  );
+}
+
 export default function ScreenshotTimeline({ screenshots, finalScreenshot }: ScreenshotTimelineProps) {
   if (screenshots.length === 0 && !finalScreenshot) {
     return null;
@@ -34,24 +63,7 @@ export default function ScreenshotTimeline({ screenshots, finalScreenshot }: Scr
       <div className="rounded-xl border border-border bg-surface p-4 overflow-x-auto">
         <div className="flex gap-4 min-w-max">
           {sampled.map((ss, i) => (
-            <div key={i} className="flex flex-col items-center gap-2 animate-fade-up" style={{ animationDelay: `${i * 100}ms` }}>
-              <div className="w-32 h-24 rounded-lg border border-border overflow-hidden bg-background relative">
-                {ss.data ? (
-                  <Image
-                    src={ss.data}
-                    alt={`Page at ${formatMs(ss.timing)}`}
-                    fill
-                    className="object-cover object-top"
-                    unoptimized
-                  />
-                ) : (
-                  <div className="w-full h-full flex items-center justify-center text-muted text-xs">
-                    No preview
-                  </div>
-                )}
-              </div>
-              <span className="text-xs text-muted tabular-nums">{formatMs(ss.timing)}</span>
-            </div>
+            <FilmstripFrame key={i} data={ss.data} timing={ss.timing} delay={i * 100} />
           ))}
         </div>
       </div>
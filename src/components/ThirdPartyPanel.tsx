@@ -0,0 +1,170 @@
+'use client';
+
+import { useMemo, useState, type FormEvent } from 'react';
+import type { SpeedTestResult } from '@/types';
+import { analyzeThirdParties, type PartyTotals } from '@/lib/thirdparty';
+import { getFirstPartyDomains, saveFirstPartyDomains } from '@/lib/storage';
+import { formatBytes, formatMs } from '@/lib/utils';
+import { Boxes, Settings2, Plus, X } from 'lucide-react';
+
+interface ThirdPartyPanelProps {
+  result: SpeedTestResult;
+  firstPartyDomains?: string[]; // fixed list, e.g. a snapshot's; the viewer's own otherwise
+}
+
+function TotalsCard({ label, totals, totalSize, accent, showBlocking = true }: {
+  label: string;
+  totals: PartyTotals;
+  totalSize: number;
+  accent: string;
+  showBlocking?: boolean;
+}) {
+  const share = totalSize > 0 ? (totals.transferSize / totalSize) * 100 : 0;
+  return (
+    <div className="rounded-xl border border-border bg-surface p-4 space-y-2">
+      <div className="flex items-center gap-2">
+        <div className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: accent }} />
+        <span className="text-xs text-muted uppercase tracking-wider font-medium">{label}</span>
+      </div>
+      <div className="text-2xl font-bold tabular-nums">{formatBytes(totals.transferSize)}</div>
+      <div className="flex items-center gap-3 text-xs text-muted flex-wrap">
+        <span>{share.toFixed(0)}% of bytes</span>
+        <span>{totals.requests} requests</span>
+        {showBlocking && <span>{formatMs(totals.blockingTime)} blocking</span>}
+      </div>
+    </div>
+  );
+}
+
+export default function ThirdPartyPanel({ result, firstPartyDomains }: ThirdPartyPanelProps) {
+  const [savedDomains, setDomains] = useState(getFirstPartyDomains);
+  const domains = firstPartyDomains ?? savedDomains;
+  const editable = firstPartyDomains === undefined;
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const analysis = useMemo(() => analyzeThirdParties(result, domains), [result, domains]);
+
+  if (result.resources.length === 0) return null;
+
+  const { firstParty, thirdParty, vendors } = analysis;
+  const totalSize = firstParty.transferSize + thirdParty.transferSize;
+  const thirdShare = totalSize > 0 ? (thirdParty.transferSize / totalSize) * 100 : 0;
+
+  const updateDomains = (next: string[]) => {
+    setDomains(next);
+    saveFirstPartyDomains(next);
+  };
+
+  const handleAdd = (e: FormEvent) => {
+    e.preventDefault();
+    const domain = draft.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/\/.*$/, '');
+    if (domain && !domains.includes(domain)) updateDomains([...domains, domain]);
+    setDraft('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <div className="flex items-center gap-2">
+          <Boxes className="w-5 h-5 text-muted" />
+          <h2 className="text-lg font-semibold">Third Parties</h2>
+        </div>
+        {editable && (
+          <button
+            onClick={() => setEditing((v) => !v)}
+            className={`flex items-center gap-1.5 px-2.5 py-1 text-xs rounded-md border transition-colors no-print ${
+              editing ? 'bg-teal/10 text-teal border-teal/20' : 'text-muted hover:text-foreground hover:bg-surface-2 border-transparent'
+            }`}
+          >
+            <Settings2 className="w-3.5 h-3.5" />
+            First-party domains{domains.length > 0 && ` (${domains.length})`}
+          </button>
+        )}
+      </div>
+
+      {editable && editing && (
+        <div className="rounded-xl border border-border bg-surface p-4 space-y-3 no-print">
+          <p className="text-xs text-muted">
+            Requests to these domains and their subdomains count as first party, for example your CDN.
+            The page&apos;s own domain always does.
+          </p>
+          <form onSubmit={handleAdd} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder="cdn.example.net"
+              className="flex-1 px-3 py-1.5 text-sm font-mono rounded-lg bg-background border border-border outline-none focus:border-teal/40 placeholder:text-muted/50"
+            />
+            <button
+              type="submit"
+              disabled={!draft.trim()}
+              className="p-2 rounded-lg bg-teal hover:bg-teal-dim text-background transition-colors disabled:opacity-40"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          </form>
+          {domains.length > 0 && (
+            <div className="flex items-center gap-2 flex-wrap">
+              {domains.map((d) => (
+                <span key={d} className="flex items-center gap-1 pl-2.5 pr-1 py-0.5 rounded-md bg-surface-2 border border-border text-xs font-mono">
+                  {d}
+                  <button onClick={() => updateDomains(domains.filter((x) => x !== d))} className="p-0.5 rounded hover:text-red">
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {/* Lighthouse only measures blocking time for third parties */}
+        <TotalsCard label="First party" totals={firstParty} totalSize={totalSize} accent="var(--color-teal)" showBlocking={false} />
+        <TotalsCard label="Third party" totals={thirdParty} totalSize={totalSize} accent="var(--color-yellow)" />
+      </div>
+
+      <div className="h-2 rounded-full overflow-hidden flex bg-background" title={`${thirdShare.toFixed(1)}% of bytes from third parties`}>
+        <div className="h-full bg-teal/70" style={{ width: `${100 - thirdShare}%` }} />
+        <div className="h-full bg-yellow/70" style={{ width: `${thirdShare}%` }} />
+      </div>
+
+      {vendors.length === 0 ? (
+        <div className="rounded-xl border border-border bg-surface px-4 py-3 text-sm text-muted">
+          No third-party requests
+        </div>
+      ) : (
+        <div className="rounded-xl border border-border bg-surface overflow-x-auto max-h-96 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-border text-xs text-muted uppercase">
+                <th className="px-4 py-2 text-left font-medium">Vendor</th>
+                <th className="px-4 py-2 text-right font-medium">Requests</th>
+                <th className="px-4 py-2 text-right font-medium">Size</th>
+                <th className="px-4 py-2 text-right font-medium">Blocking</th>
+                <th className="px-4 py-2 text-right font-medium">Main thread</th>
+              </tr>
+            </thead>
+            <tbody>
+              {vendors.map((v) => (
+                <tr key={v.name} className="border-b border-border/30 last:border-0">
+                  <td className="px-4 py-2">
+                    <div className="font-medium">{v.name}</div>
+                    <div className="text-xs text-muted font-mono truncate max-w-xs">{v.domains.join(', ')}</div>
+                  </td>
+                  <td className="px-4 py-2 text-right tabular-nums">{v.requests}</td>
+                  <td className="px-4 py-2 text-right tabular-nums">{formatBytes(v.transferSize)}</td>
+                  <td className={`px-4 py-2 text-right tabular-nums ${v.blockingTime >= 250 ? 'text-red' : v.blockingTime > 0 ? 'text-yellow' : 'text-muted'}`}>
+                    {formatMs(v.blockingTime)}
+                  </td>
+                  <td className="px-4 py-2 text-right tabular-nums text-muted">{formatMs(v.mainThreadTime)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import { useState } from 'react';
+import type { Regression, TrendMetric, TrendPoint } from '@/lib/trends';
+import { getMetricBands } from '@/lib/trends';
+
+interface TrendChartProps {
+  label: string;
+  metric: TrendMetric;
+  points: TrendPoint[];
+  regressions: Regression[]; // the ones to mark on the chart
+  format: (value: number | null) => string;
+}
+
+const WIDTH = 320;
+const HEIGHT = 140;
+const PAD = { top: 10, right: 10, bottom: 20, left: 10 };
+
+const BAND_COLORS = { good: '#22c55e', average: '#eab308', poor: '#ef4444' };
+
+export default function TrendChart({ label, metric, points, regressions, format }: TrendChartProps) {
+  const [hovered, setHovered] = useState<TrendPoint | null>(null);
+  const [good, poor] = getMetricBands(metric);
+  const higherIsBetter = metric === 'score';
+
+  const maxValue = higherIsBetter ? 100 : Math.max(...points.map((p) => p.value), poor * 1.25);
+  const minTime = points[0]?.timestamp ?? 0;
+  const maxTime = points[points.length - 1]?.timestamp ?? 1;
+  const plotW = WIDTH - PAD.left - PAD.right;
+  const plotH = HEIGHT - PAD.top - PAD.bottom;
+
+  const x = (t: number) => PAD.left + (maxTime === minTime ? plotW / 2 : ((t - minTime) / (maxTime - minTime)) * plotW);
+  const y = (v: number) => PAD.top + plotH - (Math.min(v, maxValue) / maxValue) * plotH;
+
+  // Bands run bottom-to-top in value order
+  const bands = higherIsBetter
+    ? [
+        { from: 0, to: poor, color: BAND_COLORS.poor },
+        { from: poor, to: good, color: BAND_COLORS.average },
+        { from: good, to: 100, color: BAND_COLORS.good },
+      ]
+    : [
+        { from: 0, to: good, color: BAND_COLORS.good },
+        { from: good, to: poor, color: BAND_COLORS.average },
+        { from: poor, to: maxValue, color: BAND_COLORS.poor },
+      ];
+
+  const path = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.timestamp)},${y(p.value)}`).join(' ');
+  const latest = points[points.length - 1];
+  const shown = hovered ?? latest;
+
+  return (
+    <div className="rounded-xl border border-border bg-surface p-4 space-y-2">
+      <div className="flex items-baseline justify-between gap-2">
+        <span className="text-xs text-muted uppercase tracking-wider font-medium">{label}</span>
+        {shown && (
+          <span className="text-sm font-semibold tabular-nums">
+            {format(shown.value)}
+            {hovered && (
+              <span className="text-xs text-muted font-normal ml-1.5">
+                {new Date(hovered.timestamp).toLocaleDateString()}
+              </span>
+            )}
+          </span>
+        )}
+      </div>
+
+      {points.length === 0 ? (
+        <div className="h-[140px] flex items-center justify-center text-xs text-muted">No data in range</div>
+      ) : (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" onMouseLeave={() => setHovered(null)}>
+          {bands.map((band) => (
+            <rect
+              key={band.color}
+              x={PAD.left}
+              width={plotW}
+              y={y(band.to)}
+              height={Math.max(y(band.from) - y(band.to), 0)}
+              fill={band.color}
+              opacity={0.07}
+            />
+          ))}
+
+          <path d={path} fill="none" stroke="#14b8a6" strokeWidth={1.5} strokeLinejoin="round" />
+
+          {regressions.map((r) => (
+            <g key={`${r.from.id}-${r.to.id}`}>
+              <line
+                x1={x(r.from.timestamp)}
+                y1={y(r.from.value)}
+                x2={x(r.to.timestamp)}
+                y2={y(r.to.value)}
+                stroke={BAND_COLORS.poor}
+                strokeWidth={2.5}
+              />
+              <circle cx={x(r.to.timestamp)} cy={y(r.to.value)} r={4} fill={BAND_COLORS.poor} />
+            </g>
+          ))}
+
+          {points.map((p) => (
+            <circle
+              key={p.id}
+              cx={x(p.timestamp)}
+              cy={y(p.value)}
+              r={hovered?.id === p.id ? 4 : 2.5}
+              fill="#14b8a6"
+              onMouseEnter={() => setHovered(p)}
+            />
+          ))}
+
+          <text x={PAD.left} y={HEIGHT - 4} fontSize={9} fill="#737373">
+            {new Date(minTime).toLocaleDateString()}
+          </text>
+          <text x={WIDTH - PAD.right} y={HEIGHT - 4} fontSize={9} fill="#737373" textAnchor="end">
+            {new Date(maxTime).toLocaleDateString()}
+          </text>
+        </svg>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { TrendingDown, Calendar } from 'lucide-react';
+import TrendChart from './TrendChart';
+import { getHistoryDriver, listAllHistory } from '@/lib/history';
+import { filterByRange, findRegressions, toPoints, RANGE_DAYS, type TrendMetric, type TrendRange } from '@/lib/trends';
+import { formatCls, formatMs } from '@/lib/utils';
+import type { HistoryEntry, Strategy } from '@/types';
+
+interface TrendViewProps {
+  url: string;
+}
+
+const METRICS: { metric: TrendMetric; label: string; format: (v: number | null) => string }[] = [
+  { metric: 'score', label: 'Score', format: (v) => (v === null ? '—' : String(v)) },
+  { metric: 'lcp', label: 'LCP', format: formatMs },
+  { metric: 'fcp', label: 'FCP', format: formatMs },
+  { metric: 'cls', label: 'CLS', format: formatCls },
+  { metric: 'tbt', label: 'TBT', format: formatMs },
+  { metric: 'si', label: 'Speed Index', format: formatMs },
+  { metric: 'ttfb', label: 'TTFB', format: formatMs },
+];
+
+const RANGE_LABELS: Record<TrendRange, string> = { '7d': '7 days', '30d': '30 days', '90d': '90 days', all: 'All time' };
+
+export default function TrendView({ url }: TrendViewProps) {
+  const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+  const [strategy, setStrategy] = useState<Strategy | null>(null);
+  const [range, setRange] = useState<TrendRange>('30d');
+  const [now] = useState(() => Date.now());
+
+  useEffect(() => {
+    getHistoryDriver()
+      // Every run, so "All time" really covers all of them
+      .then((history) => listAllHistory(history, url))
+      .then(setEntries)
+      .catch(() => setEntries([]));
+  }, [url]);
+
+  const strategies = useMemo(
+    () => [...new Set((entries ?? []).map((e) => e.strategy))],
+    [entries],
+  );
+  const activeStrategy = strategy && strategies.includes(strategy) ? strategy : strategies[0];
+
+  const series = useMemo(() => {
+    const inRange = filterByRange((entries ?? []).filter((e) => e.strategy === activeStrategy), range, now);
+    const all = METRICS.map((m) => {
+      const points = toPoints(inRange, m.metric);
+      return { ...m, points, regressions: findRegressions(points, m.metric) };
+    });
+    const largest = all
+      .flatMap((s) => s.regressions)
+      .sort((a, b) => b.severity - a.severity)
+      .slice(0, 5);
+    return { all, largest, count: inRange.length };
+  }, [entries, activeStrategy, range, now]);
+
+  if (entries === null) {
+    return <div className="h-48 rounded-xl bg-surface animate-pulse" />;
+  }
+
+  const labelOf = (metric: TrendMetric) => METRICS.find((m) => m.metric === metric)!;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3 flex-wrap">
+        <div className="flex items-center gap-1.5 flex-wrap">
+          {strategies.length > 1 && strategies.map((s) => (
+            <button
+              key={s}
+              onClick={() => setStrategy(s)}
+              className={`px-2.5 py-1 text-xs rounded-md capitalize transition-colors ${
+                activeStrategy === s
+                  ? 'bg-teal/10 text-teal border border-teal/20'
+                  : 'text-muted hover:text-foreground hover:bg-surface-2 border border-transparent'
+              }`}
+            >
+              {s}
+            </button>
+          ))}
+          <span className="text-xs text-muted">{series.count} tests</span>
+        </div>
+        <div className="flex items-center gap-1.5">
+          <Calendar className="w-4 h-4 text-muted" />
+          {(Object.keys(RANGE_DAYS) as TrendRange[]).map((r) => (
+            <button
+              key={r}
+              onClick={() => setRange(r)}
+              className={`px-2.5 py-1 text-xs rounded-md transition-colors ${
+                range === r
+                  ? 'bg-teal/10 text-teal border border-teal/20'
+                  : 'text-muted hover:text-foreground hover:bg-surface-2 border border-transparent'
+              }`}
+            >
+              {RANGE_LABELS[r]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+        {series.all.map((s) => (
+          <TrendChart
+            key={s.metric}
+            label={s.label}
+            metric={s.metric}
+            points={s.points}
+            regressions={series.largest.filter((r) => r.metric === s.metric)}
+            format={s.format}
+          />
+        ))}
+      </div>
+
+      {series.largest.length > 0 && (
+        <div className="rounded-xl border border-border bg-surface p-4 space-y-2">
+          <h3 className="text-sm font-medium text-muted flex items-center gap-2">
+            <TrendingDown className="w-4 h-4 text-red" />
+            Largest Regressions
+          </h3>
+          <div className="divide-y divide-border/50">
+            {series.largest.map((r) => {
+              const { label, format } = labelOf(r.metric);
+              return (
+                <div key={`${r.metric}-${r.to.id}`} className="py-2 flex items-center gap-3 text-sm">
+                  <span className="w-24 font-medium">{label}</span>
+                  <span className="tabular-nums text-muted">{format(r.from.value)}</span>
+                  <span className="text-muted">→</span>
+                  <span className="tabular-nums text-red font-medium">{format(r.to.value)}</span>
+                  <span className="ml-auto text-xs text-muted">{new Date(r.to.timestamp).toLocaleString()}</span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,20 +1,39 @@
 'use client';
 
 import { useState, type FormEvent } from 'react';
-import { Search, Loader2, Globe } from 'lucide-react';
+import { Search, Loader2, Globe, Smartphone, Monitor, Layers, ListChecks, Repeat } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import type { LighthouseCategory, Strategy, StrategySelection } from '@/types';
+import { CATEGORIES } from '@/lib/api';
+import { RUN_COUNTS } from '@/lib/multirun';
 
 interface UrlInputProps {
-  onSubmit: (url: string) => void;
+  onSubmit: (url: string, strategies: Strategy[], categories: LighthouseCategory[], runs: number) => void;
   isLoading: boolean;
+  progress?: { completed: number; total: number }; // runs finished, for multi-run tests
 }
 
-export default function UrlInput({ onSubmit, isLoading }: UrlInputProps) {
+const STRATEGY_OPTIONS: { value: StrategySelection; label: string; icon: LucideIcon }[] = [
+  { value: 'mobile', label: 'Mobile', icon: Smartphone },
+  { value: 'desktop', label: 'Desktop', icon: Monitor },
+  { value: 'both', label: 'Both', icon: Layers },
+];
+
+export default function UrlInput({ onSubmit, isLoading, progress }: UrlInputProps) {
   const [url, setUrl] = useState('');
+  const [selection, setSelection] = useState<StrategySelection>('mobile');
+  const [allCategories, setAllCategories] = useState(false);
+  const [runs, setRuns] = useState(1);
 
   const handleSubmit = (e: FormEvent) => {
     e.preventDefault();
     if (!url.trim() || isLoading) return;
-    onSubmit(url.trim());
+    onSubmit(
+      url.trim(),
+      selection === 'both' ? ['mobile', 'desktop'] : [selection],
+      allCategories ? CATEGORIES : ['performance'],
+      runs,
+    );
   };
 
   return (
@@ -64,16 +83,79 @@ export default function UrlInput({ onSubmit, isLoading }: UrlInputProps) {
             </button>
           </div>
         </div>
+
+        <div className="mt-4 flex items-center justify-center gap-3 flex-wrap">
+          <div className="inline-flex items-center gap-1 p-1 rounded-xl bg-surface border border-border">
+            {STRATEGY_OPTIONS.map(({ value, label, icon: Icon }) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setSelection(value)}
+                disabled={isLoading}
+                className={`flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-lg transition-colors disabled:opacity-40 ${
+                  selection === value
+                    ? 'bg-teal/10 text-teal border border-teal/20'
+                    : 'text-muted hover:text-foreground hover:bg-surface-2 border border-transparent'
+                }`}
+              >
+                <Icon className="w-4 h-4" />
+                {label}
+              </button>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => setAllCategories((v) => !v)}
+            disabled={isLoading}
+            title="Also audit accessibility, best practices and SEO"
+            className={`flex items-center gap-1.5 px-3 py-2 text-sm rounded-xl border transition-colors disabled:opacity-40 ${
+              allCategories
+                ? 'bg-teal/10 text-teal border-teal/20'
+                : 'bg-surface text-muted hover:text-foreground hover:bg-surface-2 border-border'
+            }`}
+          >
+            <ListChecks className="w-4 h-4" />
+            All categories
+          </button>
+          <div
+            className="inline-flex items-center gap-1 p-1 rounded-xl bg-surface border border-border"
+            title="Run several times and report the median run"
+          >
+            <Repeat className="w-4 h-4 text-muted mx-1.5" />
+            {RUN_COUNTS.map((count) => (
+              <button
+                key={count}
+                type="button"
+                onClick={() => setRuns(count)}
+                disabled={isLoading}
+                className={`px-2.5 py-1.5 text-sm rounded-lg tabular-nums transition-colors disabled:opacity-40 ${
+                  runs === count
+                    ? 'bg-teal/10 text-teal border border-teal/20'
+                    : 'text-muted hover:text-foreground hover:bg-surface-2 border border-transparent'
+                }`}
+              >
+                {count}×
+              </button>
+            ))}
+          </div>
+        </div>
       </form>
 
       {isLoading && (
         <div className="animate-fade-up space-y-3">
           <div className="flex items-center justify-center gap-3 text-muted">
             <Loader2 className="w-5 h-5 animate-spin text-teal" />
-            <span>Analyzing performance... this takes 15-30 seconds</span>
+            <span>
+              {progress && progress.total > 1
+                ? `Run ${Math.min(progress.completed + 1, progress.total)} of ${progress.total}... each takes 15-30 seconds`
+                : 'Analyzing performance... this takes 15-30 seconds'}
+            </span>
           </div>
           <div className="max-w-md mx-auto h-1 bg-surface rounded-full overflow-hidden">
-            <div className="h-full bg-teal/50 rounded-full animate-pulse" style={{ width: '60%' }} />
+            <div
+              className="h-full bg-teal/50 rounded-full animate-pulse transition-all"
+              style={{ width: progress && progress.total > 1 ? `${Math.max(10, (progress.completed / progress.total) * 100)}%` : '60%' }}
+            />
           </div>
         </div>
       )}
@@ -1,28 +1,40 @@
 'use client';
 
-import type { CoreWebVitals } from '@/types';
+import { useState } from 'react';
+import type { CoreWebVitals, FieldCategory, FieldData, FieldMetric, MetricSpread, RunAggregate } from '@/types';
 import { formatMs, formatCls, getVitalRating, getRatingColor } from '@/lib/utils';
-import { Clock, Layers, MousePointer, BarChart3, Gauge, Timer } from 'lucide-react';
+import { Clock, Layers, MousePointer, BarChart3, Gauge, Timer, Pointer, Users } from 'lucide-react';
 import type { LucideIcon } from 'lucide-react';
 
 interface VitalsGridProps {
   vitals: CoreWebVitals;
+  fieldData?: FieldData;
+  spread?: RunAggregate['spread']; // lab values across runs of a multi-run test
 }
 
 interface VitalCardProps {
   label: string;
   abbr: string;
   value: string;
-  rating: 'good' | 'needs-improvement' | 'poor';
+  rating: 'good' | 'needs-improvement' | 'poor' | null; // null when there is no value to rate
   icon: LucideIcon;
+  field?: FieldMetric;
+  spread?: MetricSpread;
+  formatField: (v: number | null) => string;
 }
 
-function VitalCard({ label, abbr, value, rating, icon: Icon }: VitalCardProps) {
-  const ratingBg = {
+const FIELD_RATING: Record<FieldCategory, 'good' | 'needs-improvement' | 'poor'> = {
+  FAST: 'good',
+  AVERAGE: 'needs-improvement',
+  SLOW: 'poor',
+};
+
+function VitalCard({ label, abbr, value, rating, icon: Icon, field, spread, formatField }: VitalCardProps) {
+  const ratingBg = rating ? {
     good: 'bg-green/5 border-green/15',
     'needs-improvement': 'bg-yellow/5 border-yellow/15',
     poor: 'bg-red/5 border-red/15',
-  }[rating];
+  }[rating] : 'bg-surface border-border';
 
   return (
     <div className={`rounded-xl border p-4 ${ratingBg} transition-colors`}>
@@ -30,23 +42,57 @@ function VitalCard({ label, abbr, value, rating, icon: Icon }: VitalCardProps) {
         <Icon className="w-4 h-4 text-muted" />
         <span className="text-xs text-muted uppercase tracking-wider font-medium">{abbr}</span>
       </div>
-      <div className={`text-2xl font-bold tabular-nums ${getRatingColor(rating)}`}>
+      <div className={rating ? `text-2xl font-bold tabular-nums ${getRatingColor(rating)}` : 'text-sm font-medium text-muted py-1.5'}>
         {value}
       </div>
       <div className="text-xs text-muted mt-1">{label}</div>
-      <div className="mt-3 flex items-center gap-1.5">
-        <div className={`w-2 h-2 rounded-full ${
-          rating === 'good' ? 'bg-green' : rating === 'needs-improvement' ? 'bg-yellow' : 'bg-red'
-        }`} />
-        <span className="text-xs text-muted capitalize">
-          {rating === 'needs-improvement' ? 'Needs Work' : rating}
-        </span>
-      </div>
+      {rating && (
+        <div className="mt-3 flex items-center gap-1.5">
+          <div className={`w-2 h-2 rounded-full ${
+            rating === 'good' ? 'bg-green' : rating === 'needs-improvement' ? 'bg-yellow' : 'bg-red'
+          }`} />
+          <span className="text-xs text-muted capitalize">
+            {rating === 'needs-improvement' ? 'Needs Work' : rating}
+          </span>
+        </div>
+      )}
+      {spread && (
+        <div className="mt-2 text-xs text-muted tabular-nums" title="Range and standard deviation across runs">
+          {formatField(spread.min)}–{formatField(spread.max)} · ±{formatField(spread.stddev)}
+        </div>
+      )}
+      {field && (
+        <div className="mt-3 pt-3 border-t border-border/50 space-y-1.5">
+          <div className="flex items-baseline justify-between text-xs">
+            <span className="text-muted">Field p75</span>
+            <span className={`font-semibold tabular-nums ${getRatingColor(FIELD_RATING[field.category])}`}>
+              {formatField(field.p75)}
+            </span>
+          </div>
+          <div
+            className="h-1.5 rounded-full overflow-hidden flex bg-background"
+            title={`Fast ${pct(field.distribution.fast)} · Average ${pct(field.distribution.average)} · Slow ${pct(field.distribution.slow)}`}
+          >
+            <div className="h-full bg-green" style={{ width: pct(field.distribution.fast) }} />
+            <div className="h-full bg-yellow" style={{ width: pct(field.distribution.average) }} />
+            <div className="h-full bg-red" style={{ width: pct(field.distribution.slow) }} />
+          </div>
+        </div>
+      )}
     </div>
   );
 }
 
-export default function VitalsGrid({ vitals }: VitalsGridProps) {
+function pct(proportion: number): string {
+  return `${Math.round(proportion * 100)}%`;
+}
+
+export default function VitalsGrid({ vitals, fieldData, spread }: VitalsGridProps) {
+  const [scope, setScope] = useState<'page' | 'origin'>('page');
+  const experience = (scope === 'page' ? fieldData?.page : fieldData?.origin) ?? fieldData?.page ?? fieldData?.origin;
+  const activeScope = experience === fieldData?.page ? 'page' : 'origin';
+  const fieldMetrics = experience?.metrics ?? {};
+
   const items: { key: keyof CoreWebVitals; label: string; abbr: string; icon: LucideIcon; format: (v: number | null) => string }[] = [
     { key: 'lcp', label: 'Largest Contentful Paint', abbr: 'LCP', icon: Layers, format: formatMs },
     { key: 'fcp', label: 'First Contentful Paint', abbr: 'FCP', icon: Clock, format: formatMs },
@@ -56,10 +102,38 @@ export default function VitalsGrid({ vitals }: VitalsGridProps) {
     { key: 'ttfb', label: 'Time to First Byte', abbr: 'TTFB', icon: MousePointer, format: formatMs },
   ];
 
+  // INP can only be measured on real users, so its card shows the CrUX p75 instead of a lab value
+  const inp = fieldMetrics.inp;
+
   return (
     <div className="space-y-4">
-      <h2 className="text-lg font-semibold">Core Web Vitals</h2>
-      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
+      <div className="flex items-center justify-between flex-wrap gap-3">
+        <h2 className="text-lg font-semibold">Core Web Vitals</h2>
+        {experience && (
+          <div className="flex items-center gap-2 text-xs">
+            <Users className="w-3.5 h-3.5 text-muted" />
+            <span className="text-muted">Field data (28 days):</span>
+            {fieldData?.page && fieldData.origin ? (
+              (['page', 'origin'] as const).map((s) => (
+                <button
+                  key={s}
+                  onClick={() => setScope(s)}
+                  className={`px-2.5 py-1 rounded-md transition-colors ${
+                    activeScope === s
+                      ? 'bg-teal/10 text-teal border border-teal/20'
+                      : 'text-muted hover:text-foreground hover:bg-surface-2 border border-transparent'
+                  }`}
+                >
+                  {s === 'page' ? 'This URL' : 'Origin'}
+                </button>
+              ))
+            ) : (
+              <span className="font-medium">{activeScope === 'page' ? 'This URL' : 'Origin'}</span>
+            )}
+          </div>
+        )}
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-7 gap-3">
         {items.map(({ key, label, abbr, icon, format }) => (
           <VitalCard
             key={key}
@@ -68,8 +142,20 @@ export default function VitalsGrid({ vitals }: VitalsGridProps) {
             value={format(vitals[key])}
             rating={getVitalRating(key, vitals[key])}
             icon={icon}
+            field={fieldMetrics[key]}
+            spread={spread?.[key]}
+            formatField={format}
           />
         ))}
+        <VitalCard
+          label="Interaction to Next Paint"
+          abbr="INP"
+          value={inp ? formatMs(inp.p75) : 'No field data'}
+          rating={inp ? FIELD_RATING[inp.category] : null}
+          icon={Pointer}
+          field={inp}
+          formatField={formatMs}
+        />
       </div>
     </div>
   );
@@ -2,13 +2,18 @@
 
 import { useState, useMemo } from 'react';
 import type { ResourceItem } from '@/types';
-import { formatBytes, formatMs, getResourceTypeColor } from '@/lib/utils';
-import { Filter } from 'lucide-react';
+import { formatBytes, formatMs, getResourceTypeColor, getResourceTypeLabel } from '@/lib/utils';
+import { Filter, Search, ArrowUp, ArrowDown, X } from 'lucide-react';
 
 interface WaterfallChartProps {
   resources: ResourceItem[];
+  renderBlocking?: string[]; // URLs that delay first paint
+  fcp?: number | null; // ms, marked on the timeline
 }
 
+type SortKey = 'start' | 'url' | 'status' | 'size' | 'duration';
+type SizeMode = 'transfer' | 'resource';
+
 const RESOURCE_TYPES = ['all', 'script', 'stylesheet', 'image', 'font', 'document', 'other'] as const;
 
 const TYPE_LABELS: Record<string, string> = {
@@ -21,18 +26,80 @@ const TYPE_LABELS: Record<string, string> = {
   other: 'Other',
 };
 
-export default function WaterfallChart({ resources }: WaterfallChartProps) {
+const PRIORITY_LABELS: Record<NonNullable<ResourceItem['priority']>, string> = {
+  VeryHigh: 'Highest',
+  High: 'High',
+  Medium: 'Medium',
+  Low: 'Low',
+  VeryLow: 'Lowest',
+};
+
+// Results saved before uncompressed sizes were kept fall back to the transfer size
+function sizeOf(resource: ResourceItem, mode: SizeMode): number {
+  return mode === 'resource' ? resource.resourceSize ?? resource.transferSize : resource.transferSize;
+}
+
+function compareBy(key: SortKey, mode: SizeMode): (a: ResourceItem, b: ResourceItem) => number {
+  switch (key) {
+    case 'url': return (a, b) => a.url.localeCompare(b.url);
+    case 'status': return (a, b) => (a.statusCode ?? 0) - (b.statusCode ?? 0);
+    case 'size': return (a, b) => sizeOf(a, mode) - sizeOf(b, mode);
+    case 'duration': return (a, b) => a.duration - b.duration;
+    case 'start': return (a, b) => a.startTime - b.startTime;
+  }
+}
+
+interface SortHeaderProps {
+  sortKey: SortKey;
+  label: string;
+  sort: { key: SortKey; desc: boolean };
+  onSort: (key: SortKey) => void;
+  className?: string;
+}
+
+function SortHeader({ sortKey, label, sort, onSort, className = 'flex' }: SortHeaderProps) {
+  return (
+    <button
+      onClick={() => onSort(sortKey)}
+      className={`items-center gap-0.5 hover:text-foreground transition-colors ${sort.key === sortKey ? 'text-foreground' : ''} ${className}`}
+    >
+      {label}
+      {sort.key === sortKey && (sort.desc ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />)}
+    </button>
+  );
+}
+
+function getFilename(url: string): string {
+  try {
+    const u = new URL(url);
+    const path = u.pathname.split('/').pop() || u.hostname;
+    return path.length > 30 ? path.slice(0, 27) + '...' : path;
+  } catch {
+    return url.slice(0, 30);
+  }
+}
+
+export default function WaterfallChart({ resources, renderBlocking = [], fcp = null }: WaterfallChartProps) {
   const [filter, setFilter] = useState<string>('all');
-  const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
+  const [query, setQuery] = useState('');
+  const [sort, setSort] = useState<{ key: SortKey; desc: boolean }>({ key: 'start', desc: false });
+  const [sizeMode, setSizeMode] = useState<SizeMode>('transfer');
+  const [selected, setSelected] = useState<ResourceItem | null>(null);
 
   const maxTime = useMemo(() => {
-    return Math.max(...resources.map((r) => r.startTime + r.duration), 1);
-  }, [resources]);
+    return Math.max(...resources.map((r) => r.startTime + r.duration), fcp ?? 0, 1);
+  }, [resources, fcp]);
+
+  const blocking = useMemo(() => new Set(renderBlocking), [renderBlocking]);
 
   const filtered = useMemo(() => {
-    if (filter === 'all') return resources;
-    return resources.filter((r) => r.type === filter);
-  }, [resources, filter]);
+    const needle = query.trim().toLowerCase();
+    const matching = resources.filter((r) =>
+      (filter === 'all' || r.type === filter || (filter === 'blocking' && blocking.has(r.url))) &&
+      (!needle || r.url.toLowerCase().includes(needle)));
+    const compare = compareBy(sort.key, sizeMode);
+    return matching.sort((a, b) => (sort.desc ? compare(b, a) : compare(a, b)));
+  }, [resources, blocking, filter, query, sort, sizeMode]);
 
   const typeCounts = useMemo(() => {
     const counts: Record<string, number> = { all: resources.length };
@@ -42,6 +109,10 @@ export default function WaterfallChart({ resources }: WaterfallChartProps) {
     return counts;
   }, [resources]);
 
+  const hasResourceSizes = resources.some((r) => r.resourceSize !== undefined);
+  const blockingCount = resources.filter((r) => blocking.has(r.url)).length;
+  const fcpLeft = fcp !== null ? (fcp / maxTime) * 100 : null;
+
   if (resources.length === 0) {
     return (
       <div className="rounded-xl border border-border bg-surface p-8 text-center text-muted">
@@ -50,14 +121,9 @@ export default function WaterfallChart({ resources }: WaterfallChartProps) {
     );
   }
 
-  const getFilename = (url: string) => {
-    try {
-      const u = new URL(url);
-      const path = u.pathname.split('/').pop() || u.hostname;
-      return path.length > 30 ? path.slice(0, 27) + '...' : path;
-    } catch {
-      return url.slice(0, 30);
-    }
+  const toggleSort = (key: SortKey) => {
+    // Sizes and durations are most useful largest first
+    setSort((s) => (s.key === key ? { key, desc: !s.desc } : { key, desc: key === 'size' || key === 'duration' }));
   };
 
   return (
@@ -83,15 +149,62 @@ export default function WaterfallChart({ resources }: WaterfallChartProps) {
               </button>
             );
           })}
+          {blockingCount > 0 && (
+            <button
+              onClick={() => setFilter('blocking')}
+              className={`px-2.5 py-1 text-xs rounded-md transition-colors ${
+                filter === 'blocking'
+                  ? 'bg-red/10 text-red border border-red/20'
+                  : 'text-muted hover:text-red hover:bg-surface-2 border border-transparent'
+              }`}
+            >
+              Render-blocking ({blockingCount})
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3 flex-wrap">
+        <div className="flex-1 min-w-48 flex items-center bg-surface border border-border rounded-lg overflow-hidden focus-within:border-teal/40 transition-colors">
+          <Search className="w-3.5 h-3.5 text-muted ml-3 shrink-0" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Filter by URL"
+            className="flex-1 bg-transparent px-2.5 py-1.5 text-xs outline-none placeholder:text-muted/50"
+          />
+        </div>
+        <div
+          className="inline-flex items-center gap-1 p-0.5 rounded-lg bg-surface border border-border text-xs"
+          title={hasResourceSizes ? undefined : 'Uncompressed sizes were not recorded for this result'}
+        >
+          {(['transfer', 'resource'] as const).map((mode) => (
+            <button
+              key={mode}
+              onClick={() => setSizeMode(mode)}
+              disabled={mode === 'resource' && !hasResourceSizes}
+              className={`px-2.5 py-1 rounded-md transition-colors disabled:opacity-40 ${
+                sizeMode === mode
+                  ? 'bg-teal/10 text-teal border border-teal/20'
+                  : 'text-muted hover:text-foreground hover:bg-surface-2 border border-transparent'
+              }`}
+            >
+              {mode === 'transfer' ? 'Compressed' : 'Uncompressed'}
+            </button>
+          ))}
         </div>
       </div>
 
       <div className="rounded-xl border border-border bg-surface overflow-hidden">
-        {/* Time scale */}
-        <div className="flex items-center px-4 py-2 border-b border-border text-xs text-muted">
-          <div className="w-40 sm:w-56 shrink-0">Resource</div>
-          <div className="flex-1 flex justify-between">
-            <span>0 ms</span>
+        {/* Column headers + time scale */}
+        <div className="flex items-center gap-2 px-4 py-2 border-b border-border text-xs text-muted">
+          <SortHeader sortKey="url" label="Resource" sort={sort} onSort={toggleSort} className="flex w-40 sm:w-56 shrink-0" />
+          <SortHeader sortKey="status" label="Status" sort={sort} onSort={toggleSort} className="hidden sm:flex w-12 shrink-0 justify-end" />
+          <SortHeader sortKey="size" label="Size" sort={sort} onSort={toggleSort} className="flex w-16 shrink-0 justify-end" />
+          <SortHeader sortKey="duration" label="Time" sort={sort} onSort={toggleSort} className="hidden sm:flex w-14 shrink-0 justify-end" />
+          <div className="flex-1 flex justify-between pl-2">
+            <SortHeader sortKey="start" label="0 ms" sort={sort} onSort={toggleSort} />
             <span>{formatMs(maxTime / 4)}</span>
             <span>{formatMs(maxTime / 2)}</span>
             <span>{formatMs((maxTime * 3) / 4)}</span>
@@ -101,56 +214,74 @@ export default function WaterfallChart({ resources }: WaterfallChartProps) {
 
         {/* Resource rows */}
         <div className="max-h-96 overflow-y-auto">
+          {filtered.length === 0 && (
+            <div className="px-4 py-6 text-center text-xs text-muted">No requests match</div>
+          )}
           {filtered.map((resource, i) => {
             const left = (resource.startTime / maxTime) * 100;
             const width = Math.max((resource.duration / maxTime) * 100, 0.5);
-            const isHovered = hoveredIndex === i;
+            const isSelected = selected === resource;
+            const failed = resource.statusCode !== undefined && resource.statusCode >= 400;
+            const isBlocking = blocking.has(resource.url);
 
             return (
               <div
-                key={`${resource.url}-${i}`}
-                className={`flex items-center px-4 py-1.5 border-b border-border/50 text-xs transition-colors ${
-                  isHovered ? 'bg-surface-2' : 'hover:bg-surface-2/50'
+                key={`${resource.url}-${resource.startTime}-${i}`}
+                onClick={() => setSelected(isSelected ? null : resource)}
+                className={`flex items-center gap-2 px-4 py-1.5 border-b border-border/50 text-xs cursor-pointer transition-colors ${
+                  isSelected ? 'bg-teal/5' : 'hover:bg-surface-2/50'
                 }`}
-                onMouseEnter={() => setHoveredIndex(i)}
-                onMouseLeave={() => setHoveredIndex(null)}
               >
                 <div className="w-40 sm:w-56 shrink-0 flex items-center gap-2 min-w-0">
                   <div
                     className="w-2 h-2 rounded-full shrink-0"
                     style={{ backgroundColor: getResourceTypeColor(resource.type) }}
                   />
-                  <span className="truncate text-muted" title={resource.url}>
+                  <span
+                    className={`truncate ${isBlocking ? 'text-red' : isSelected ? 'text-foreground' : 'text-muted'}`}
+                    title={isBlocking ? `Render-blocking: ${resource.url}` : resource.url}
+                  >
                     {getFilename(resource.url)}
                   </span>
                 </div>
-                <div className="flex-1 relative h-5">
+                <div className={`w-12 shrink-0 text-right tabular-nums hidden sm:block ${failed ? 'text-red' : 'text-muted'}`}>
+                  {resource.statusCode ?? '—'}
+                </div>
+                <div className="w-16 shrink-0 text-right tabular-nums text-muted">
+                  {resource.cached ? <span className="text-teal">cache</span> : formatBytes(sizeOf(resource, sizeMode))}
+                </div>
+                <div className="w-14 shrink-0 text-right tabular-nums text-muted hidden sm:block">
+                  {formatMs(resource.duration)}
+                </div>
+                <div className="flex-1 relative h-5 ml-2">
+                  {fcpLeft !== null && (
+                    <div className="absolute inset-y-0 w-px bg-green/60" style={{ left: `${fcpLeft}%` }} />
+                  )}
                   <div
                     className="absolute top-1 h-3 rounded-sm animate-waterfall"
                     style={{
                       left: `${left}%`,
                       width: `${width}%`,
                       backgroundColor: getResourceTypeColor(resource.type),
-                      opacity: 0.8,
-                      animationDelay: `${i * 30}ms`,
+                      opacity: resource.cached ? 0.4 : 0.8,
+                      // Outlined in red so the requests holding back first paint stand out
+                      boxShadow: isBlocking ? '0 0 0 1.5px var(--color-red)' : undefined,
+                      animationDelay: `${Math.min(i, 30) * 30}ms`,
                     }}
                   />
                 </div>
-                {isHovered && (
-                  <div className="shrink-0 text-right text-muted ml-2 hidden sm:block">
-                    {formatBytes(resource.transferSize)} · {formatMs(resource.duration)}
-                  </div>
-                )}
               </div>
             );
           })}
         </div>
 
+        {selected && <RequestDetails resource={selected} blocking={blocking.has(selected.url)} onClose={() => setSelected(null)} />}
+
         {/* Summary */}
         <div className="px-4 py-3 border-t border-border flex items-center gap-6 text-xs text-muted flex-wrap">
-          <span>{filtered.length} resources</span>
+          <span>{filtered.length} of {resources.length} requests</span>
           <span>
-            {formatBytes(filtered.reduce((sum, r) => sum + r.transferSize, 0))} total
+            {formatBytes(filtered.reduce((sum, r) => sum + sizeOf(r, sizeMode), 0))} {sizeMode === 'transfer' ? 'transferred' : 'uncompressed'}
           </span>
           <div className="flex items-center gap-3 ml-auto">
             {['script', 'stylesheet', 'image', 'font'].map((type) => (
@@ -162,9 +293,69 @@ export default function WaterfallChart({ resources }: WaterfallChartProps) {
                 <span>{TYPE_LABELS[type]}</span>
               </div>
             ))}
+            {blockingCount > 0 && (
+              <div className="flex items-center gap-1.5">
+                <div className="w-2 h-2 rounded-full border border-red" />
+                <span>Render-blocking</span>
+              </div>
+            )}
+            {fcp !== null && (
+              <div className="flex items-center gap-1.5">
+                <div className="w-px h-3 bg-green" />
+                <span>FCP {formatMs(fcp)}</span>
+              </div>
+            )}
           </div>
         </div>
       </div>
     </div>
   );
 }
+
+function RequestDetails({ resource, blocking, onClose }: { resource: ResourceItem; blocking: boolean; onClose: () => void }) {
+  const saved = resource.resourceSize && resource.resourceSize > resource.transferSize && !resource.cached
+    ? 1 - resource.transferSize / resource.resourceSize
+    : null;
+
+  const rows: [string, string][] = [
+    ['Type', getResourceTypeLabel(resource.type)],
+    ['MIME type', resource.mimeType ?? '—'],
+    ['Status', resource.statusCode !== undefined ? String(resource.statusCode) : '—'],
+    ['Protocol', resource.protocol ?? '—'],
+    ['Priority', resource.priority ? PRIORITY_LABELS[resource.priority] : '—'],
+    ['Cache', resource.cached === undefined ? '—' : resource.cached ? 'Served from cache' : 'Network'],
+    ['Transferred', formatBytes(resource.transferSize)],
+    ['Uncompressed', resource.resourceSize !== undefined ? formatBytes(resource.resourceSize) : '—'],
+    ['Compression', saved !== null ? `${Math.round(saved * 100)}% smaller` : '—'],
+    ['Started', formatMs(resource.startTime)],
+    ['Duration', formatMs(resource.duration)],
+    ['Finished', formatMs(resource.startTime + resource.duration)],
+    ...(blocking ? [['Render-blocking', 'Delays first paint'] as [string, string]] : []),
+  ];
+
+  return (
+    <div className="border-t border-border bg-background/40 px-4 py-3 space-y-3 animate-fade-up">
+      <div className="flex items-start gap-3">
+        <a
+          href={resource.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex-1 min-w-0 font-mono text-xs text-teal hover:underline break-all"
+        >
+          {resource.url}
+        </a>
+        <button onClick={onClose} title="Close" className="p-1 rounded-md hover:bg-surface-2 text-muted hover:text-foreground">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      <dl className="grid grid-cols-2 sm:grid-cols-4 gap-x-6 gap-y-2 text-xs">
+        {rows.map(([label, value]) => (
+          <div key={label} className="flex justify-between gap-2 sm:block">
+            <dt className="text-muted">{label}</dt>
+            <dd className="font-medium tabular-nums">{value}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
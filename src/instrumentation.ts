@@ -0,0 +1,13 @@
+export async function register() {
+  // The monitor scheduler needs the filesystem, so it only runs in the Node.js runtime
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || process.env.SPEEDSTEIN_MONITORS === 'off') return;
+
+  const { startMonitorScheduler } = await import('./lib/scheduler');
+  const { notifyMonitorResult } = await import('./lib/alerts-db');
+  startMonitorScheduler({
+    // Webhook retries back off for seconds; don't hold up the monitors still due
+    onResult: (monitor, result) => {
+      notifyMonitorResult(monitor, result).catch((err) => console.error('[speedstein] alerting failed', err));
+    },
+  });
+}
@@ -0,0 +1,87 @@
+import type { Alert, AlertDelivery, AlertRule, Monitor, SpeedTestResult } from '@/types';
+import { readJson, updateJson } from './datastore';
+import { getMonitorRuns } from './monitors';
+import { deliverAlert, evaluateRules, type AlertBaseline, type AlertRuleInput, type DeliveryOptions } from './alerts';
+
+// Server-side alert rules and the log of every webhook delivery, newest first.
+
+const RULES_DOC = 'alerts/rules';
+const DELIVERIES_DOC = 'alerts/deliveries';
+const MAX_DELIVERIES = 200;
+
+export function listAlertRules(): Promise<AlertRule[]> {
+  return readJson<AlertRule[]>(RULES_DOC, []);
+}
+
+export async function getAlertRule(id: string): Promise<AlertRule | undefined> {
+  return (await listAlertRules()).find((r) => r.id === id);
+}
+
+export async function createAlertRule(input: AlertRuleInput, now = Date.now()): Promise<AlertRule> {
+  const rule: AlertRule = {
+    id: `alr_${now}_${Math.random().toString(36).slice(2, 8)}`,
+    ...input,
+    enabled: true,
+    createdAt: now,
+  };
+  await updateJson<AlertRule[]>(RULES_DOC, [], (rules) => [...rules, rule]);
+  return rule;
+}
+
+export async function updateAlertRule(
+  id: string,
+  patch: Partial<Omit<AlertRule, 'id' | 'createdAt'>>,
+): Promise<AlertRule | undefined> {
+  let updated: AlertRule | undefined;
+  await updateJson<AlertRule[]>(RULES_DOC, [], (rules) =>
+    rules.map((r) => {
+      if (r.id !== id) return r;
+      updated = { ...r, ...patch };
+      return updated;
+    }),
+  );
+  return updated;
+}
+
+export async function deleteAlertRule(id: string): Promise<boolean> {
+  let found = false;
+  await updateJson<AlertRule[]>(RULES_DOC, [], (rules) => {
+    found = rules.some((r) => r.id === id);
+    return rules.filter((r) => r.id !== id);
+  });
+  return found;
+}
+
+export async function listDeliveries(ruleId?: string): Promise<AlertDelivery[]> {
+  const deliveries = await readJson<AlertDelivery[]>(DELIVERIES_DOC, []);
+  return ruleId ? deliveries.filter((d) => d.ruleId === ruleId) : deliveries;
+}
+
+export async function recordDelivery(delivery: AlertDelivery): Promise<void> {
+  await updateJson<AlertDelivery[]>(DELIVERIES_DOC, [], (deliveries) =>
+    [delivery, ...deliveries].slice(0, MAX_DELIVERIES),
+  );
+}
+
+export async function sendAlert(alert: Alert, rule: AlertRule, options?: DeliveryOptions): Promise<AlertDelivery> {
+  const delivery = await deliverAlert(alert, rule, options);
+  await recordDelivery(delivery);
+  return delivery;
+}
+
+// Checks a new result against every stored rule and delivers what fires
+export async function notifyAlerts(
+  result: SpeedTestResult,
+  previous: AlertBaseline | null,
+  options?: DeliveryOptions,
+): Promise<AlertDelivery[]> {
+  const rules = await listAlertRules();
+  const alerts = evaluateRules(rules, result, previous);
+  return Promise.all(alerts.map((alert) => sendAlert(alert, rules.find((r) => r.id === alert.ruleId)!, options)));
+}
+
+// A monitor run is compared with the run recorded just before it
+export async function notifyMonitorResult(monitor: Monitor, result: SpeedTestResult): Promise<AlertDelivery[]> {
+  const { entries } = await getMonitorRuns(monitor.id, { pageSize: 2 });
+  return notifyAlerts(result, entries.find((r) => r.id !== result.id) ?? null);
+}
@@ -0,0 +1,139 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type IncomingHttpHeaders, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import type { Alert } from '@/types';
+import { deliverAlert, validateAlertRuleInput, type DeliveryOptions } from './alerts';
+
+const alert: Alert = {
+  ruleId: 'alert_1',
+  ruleName: 'Score drop',
+  url: 'https://example.com/',
+  strategy: 'mobile',
+  message: 'Score dropped from 90 to 60',
+  metric: 'score',
+  value: 60,
+  previousValue: 90,
+  resultId: 'test_1',
+  triggeredAt: 0,
+};
+
+// A local webhook receiver that answers each attempt with the next status;
+// null drops the connection, like a network error
+let receiver: Server;
+let webhookUrl = '';
+let statuses: (number | null)[] = [];
+let received: { headers: IncomingHttpHeaders; body: unknown }[] = [];
+
+before(async () => {
+  receiver = createServer(async (req, res) => {
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    received.push({ headers: req.headers, body: JSON.parse(body) });
+    const status = statuses[Math.min(received.length - 1, statuses.length - 1)];
+    if (status === null) return void req.socket.destroy();
+    res.writeHead(status, status === 302 ? { Location: 'http://169.254.169.254/' } : {}).end();
+  });
+  await new Promise<void>((resolve) => receiver.listen(0, '127.0.0.1', resolve));
+  webhookUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hook`;
+});
+
+after(async () => {
+  receiver.closeAllConnections();
+  await new Promise((resolve) => receiver.close(resolve));
+});
+
+// Records the backoff instead of waiting it out
+function delivery(...answers: (number | null)[]) {
+  statuses = answers;
+  received = [];
+  const delays: number[] = [];
+  const options: DeliveryOptions = {
+    allowPrivate: true,
+    now: () => 1_000,
+    sleep: async (ms) => {
+      delays.push(ms);
+    },
+  };
+  return { options, delays };
+}
+
+test('posts the alert as JSON or as a Slack message', async () => {
+  const { options } = delivery(200);
+  const json = await deliverAlert(alert, { webhookUrl, format: 'json' }, options);
+
+  assert.equal(json.status, 'delivered');
+  assert.equal(received[0].headers['content-type'], 'application/json');
+  assert.equal(received[0].headers['user-agent'], 'Speedstein');
+  assert.deepEqual(received[0].body, { event: 'speedstein.alert', ...alert });
+
+  received = [];
+  await deliverAlert(alert, { webhookUrl, format: 'slack' }, options);
+  const slack = received[0].body as { text: string; blocks: { type: string; text?: { text: string } }[] };
+  assert.equal(slack.text, alert.message);
+  assert.deepEqual(slack.blocks.map((b) => b.type), ['section', 'context']);
+  assert.match(slack.blocks[0].text?.text ?? '', /\*Score drop\*\nScore dropped from 90 to 60/);
+});
+
+test('retries 5xx, 429 and network errors with exponential backoff', async () => {
+  const { options, delays } = delivery(503, null, 429, 200);
+
+  const result = await deliverAlert(alert, { webhookUrl, format: 'json' }, options);
+
+  assert.equal(result.status, 'delivered');
+  assert.equal(result.attempts, 4);
+  assert.equal(received.length, 4);
+  assert.deepEqual(delays, [2000, 4000, 8000]);
+  assert.equal(result.statusCode, 200);
+  assert.equal(result.error, null);
+});
+
+test('gives up after the last retry', async () => {
+  const { options, delays } = delivery(500);
+
+  const result = await deliverAlert(alert, { webhookUrl, format: 'json' }, { ...options, retries: 2, retryDelayMs: 100 });
+
+  assert.equal(result.status, 'failed');
+  assert.equal(result.attempts, 3);
+  assert.equal(received.length, 3);
+  assert.deepEqual(delays, [100, 200]);
+  assert.equal(result.error, 'Webhook returned 500');
+});
+
+test('does not retry other 4xx responses, redirects or a test send', async () => {
+  const rejected = delivery(404);
+  const result = await deliverAlert(alert, { webhookUrl, format: 'json' }, rejected.options);
+  assert.equal(result.attempts, 1);
+  assert.equal(result.statusCode, 404);
+  assert.deepEqual(rejected.delays, []);
+
+  // The redirect points at a private address and must not be followed
+  const redirected = delivery(302);
+  assert.equal((await deliverAlert(alert, { webhookUrl, format: 'json' }, redirected.options)).statusCode, 302);
+  assert.equal(received.length, 1);
+
+  const once = delivery(503);
+  assert.equal((await deliverAlert(alert, { webhookUrl, format: 'json' }, { ...once.options, retries: 0 })).attempts, 1);
+  assert.equal(received.length, 1);
+  assert.deepEqual(once.delays, []);
+});
+
+test('refuses private webhook hosts unless allowed', async () => {
+  assert.throws(
+    () => validateAlertRuleInput({ name: 'Local', webhookUrl: 'http://localhost:9000/', format: 'json', condition: { type: 'score-drop', points: 5 } }, false),
+    /private/,
+  );
+  assert.equal(
+    validateAlertRuleInput({ name: 'Local', webhookUrl: 'http://localhost:9000/', format: 'json', condition: { type: 'score-drop', points: 5 } }, true).webhookUrl,
+    'http://localhost:9000/',
+  );
+
+  const { options } = delivery(200);
+  for (const url of [webhookUrl, 'http://169.254.169.254/']) {
+    const result = await deliverAlert(alert, { webhookUrl: url, format: 'json' }, { ...options, allowPrivate: false });
+    assert.equal(result.status, 'failed');
+    assert.equal(result.attempts, 1);
+    assert.match(result.error ?? '', /private address/);
+  }
+  assert.equal(received.length, 0);
+});
@@ -0,0 +1,244 @@
+import type {
+  Alert, AlertCondition, AlertDelivery, AlertRule, CoreWebVitals, SpeedTestResult, VitalRating, WebhookFormat,
+} from '@/types';
+import { BUDGET_VITALS, patternMatches } from './budgets';
+import { assertPublicUrl, isPrivateHostname, privateUrlsAllowed } from './network';
+import { formatCls, formatMs, getVitalRating } from './utils';
+
+// Regression alerts: rules compare a run with the previous run of the same
+// page and device, and matching alerts are POSTed to a webhook.
+
+export const WEBHOOK_FORMATS: { value: WebhookFormat; label: string }[] = [
+  { value: 'json', label: 'JSON' },
+  { value: 'slack', label: 'Slack' },
+];
+
+export const ALERT_VITALS = BUDGET_VITALS;
+
+export interface AlertRuleInput {
+  name: string;
+  pattern: string;
+  condition: AlertCondition;
+  webhookUrl: string;
+  format: WebhookFormat;
+}
+
+// Only what rules look at, so CLI baselines from --format json work too
+export type AlertBaseline = Pick<SpeedTestResult, 'score' | 'vitals'>;
+
+export interface DeliveryOptions {
+  retries?: number; // extra attempts after a retryable failure
+  retryDelayMs?: number; // first backoff, doubled on every retry
+  timeoutMs?: number;
+  fetchFn?: typeof fetch;
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+  allowPrivate?: boolean; // defaults to SPEEDSTEIN_ALLOW_PRIVATE_URLS; the CLI always allows
+}
+
+const RATING_ORDER: Record<VitalRating, number> = { good: 0, 'needs-improvement': 1, poor: 2 };
+const RATING_LABELS: Record<VitalRating, string> = { good: 'good', 'needs-improvement': 'needs improvement', poor: 'poor' };
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+function vitalLabel(metric: keyof CoreWebVitals): string {
+  return ALERT_VITALS.find((v) => v.key === metric)?.label ?? metric.toUpperCase();
+}
+
+export function formatVital(metric: keyof CoreWebVitals, value: number): string {
+  return metric === 'cls' ? formatCls(value) : formatMs(value);
+}
+
+export function describeCondition(condition: AlertCondition): string {
+  return condition.type === 'score-drop'
+    ? `Score drops by more than ${condition.points}`
+    : `${vitalLabel(condition.metric)} becomes ${RATING_LABELS[condition.rating]}`;
+}
+
+export function validateAlertRuleInput(input: Partial<AlertRuleInput>, allowPrivate = privateUrlsAllowed()): AlertRuleInput {
+  const name = input.name?.trim() ?? '';
+  if (!name) throw new Error('A name is required');
+  const pattern = input.pattern?.trim() || '*';
+
+  let webhookUrl: URL;
+  try {
+    webhookUrl = new URL(input.webhookUrl ?? '');
+  } catch {
+    throw new Error('A valid webhook URL is required');
+  }
+  if (webhookUrl.protocol !== 'http:' && webhookUrl.protocol !== 'https:') {
+    throw new Error('The webhook URL must use http or https');
+  }
+  // Hosts that only resolve to private addresses are caught again on delivery
+  if (!allowPrivate && isPrivateHostname(webhookUrl.hostname)) {
+    throw new Error('The webhook URL must not point to a loopback, private or link-local address');
+  }
+  if (!WEBHOOK_FORMATS.some((f) => f.value === input.format)) {
+    throw new Error('Format must be "json" or "slack"');
+  }
+
+  const condition = input.condition;
+  if (condition?.type === 'score-drop') {
+    if (!Number.isFinite(condition.points) || condition.points < 0 || condition.points > 100) {
+      throw new Error('Score drop must be between 0 and 100 points');
+    }
+    return { name, pattern, webhookUrl: webhookUrl.href, format: input.format!, condition: { type: 'score-drop', points: condition.points } };
+  }
+  if (condition?.type === 'rating') {
+    if (!ALERT_VITALS.some((v) => v.key === condition.metric)) throw new Error(`Unknown metric "${condition.metric}"`);
+    if (condition.rating !== 'needs-improvement' && condition.rating !== 'poor') {
+      throw new Error('Rating must be "needs-improvement" or "poor"');
+    }
+    return {
+      name, pattern, webhookUrl: webhookUrl.href, format: input.format!,
+      condition: { type: 'rating', metric: condition.metric, rating: condition.rating },
+    };
+  }
+  throw new Error('Condition must be "score-drop" or "rating"');
+}
+
+// An alert fires on the change, not on every run: a page that stays poor is reported once.
+// Without a previous run, score drops cannot fire and rating rules look at this run alone.
+export function evaluateRule(rule: AlertRule, result: SpeedTestResult, previous: AlertBaseline | null): Alert | null {
+  if (!rule.enabled || !patternMatches(rule.pattern, result.url)) return null;
+  const base = {
+    ruleId: rule.id,
+    ruleName: rule.name,
+    url: result.url,
+    strategy: result.strategy,
+    resultId: result.id,
+    triggeredAt: result.timestamp,
+  };
+  const { condition } = rule;
+
+  if (condition.type === 'score-drop') {
+    if (!previous || previous.score - result.score <= condition.points) return null;
+    return {
+      ...base,
+      metric: 'score',
+      value: result.score,
+      previousValue: previous.score,
+      message: `Score of ${result.url} (${result.strategy}) dropped from ${previous.score} to ${result.score}`,
+    };
+  }
+
+  const value = result.vitals[condition.metric];
+  if (value === null) return null;
+  const rating = getVitalRating(condition.metric, value);
+  if (RATING_ORDER[rating] < RATING_ORDER[condition.rating]) return null;
+
+  const previousValue = previous?.vitals[condition.metric] ?? null;
+  if (previousValue !== null && RATING_ORDER[getVitalRating(condition.metric, previousValue)] >= RATING_ORDER[condition.rating]) {
+    return null;
+  }
+  const label = vitalLabel(condition.metric);
+  return {
+    ...base,
+    metric: condition.metric,
+    value,
+    previousValue,
+    message: `${label} of ${result.url} (${result.strategy}) is now ${RATING_LABELS[rating]}: ` +
+      (previousValue !== null ? `${formatVital(condition.metric, previousValue)} → ` : '') +
+      formatVital(condition.metric, value),
+  };
+}
+
+export function evaluateRules(rules: AlertRule[], result: SpeedTestResult, previous: AlertBaseline | null): Alert[] {
+  return rules.flatMap((rule) => evaluateRule(rule, result, previous) ?? []);
+}
+
+// What "Send test" delivers, so a receiver can be checked without waiting for a regression
+export function testAlert(rule: AlertRule, now = Date.now()): Alert {
+  return {
+    ruleId: rule.id,
+    ruleName: rule.name,
+    url: 'https://example.com/',
+    strategy: 'mobile',
+    metric: 'score',
+    value: 60,
+    previousValue: 90,
+    resultId: 'test',
+    triggeredAt: now,
+    message: `Test alert for "${rule.name}" (${describeCondition(rule.condition)})`,
+  };
+}
+
+export function buildPayload(alert: Alert, format: WebhookFormat): unknown {
+  if (format === 'json') return { event: 'speedstein.alert', ...alert };
+  // Slack incoming webhooks show `text` in notifications and `blocks` in the channel
+  return {
+    text: alert.message,
+    blocks: [
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: `:rotating_light: *${alert.ruleName}*\n${alert.message}` },
+      },
+      {
+        type: 'context',
+        elements: [{ type: 'mrkdwn', text: `<${alert.url}|${alert.url}> · ${alert.strategy} · ${new Date(alert.triggeredAt).toISOString()}` }],
+      },
+    ],
+  };
+}
+
+// Timeouts, network errors, 408, 429 and 5xx are worth another attempt; other 4xx never succeed
+function isRetryable(status: number | null): boolean {
+  return status === null || status === 408 || status === 429 || status >= 500;
+}
+
+export async function deliverAlert(
+  alert: Alert,
+  target: Pick<AlertRule, 'webhookUrl' | 'format'>,
+  options: DeliveryOptions = {},
+): Promise<AlertDelivery> {
+  const {
+    retries = 3, retryDelayMs = 2000, timeoutMs = 10_000, fetchFn = fetch, sleep = defaultSleep, now = Date.now,
+    allowPrivate = privateUrlsAllowed(),
+  } = options;
+  const body = JSON.stringify(buildPayload(alert, target.format));
+  let attempts = 0;
+  let statusCode: number | null = null;
+  let error: string | null = null;
+
+  while (true) {
+    attempts++;
+    try {
+      // Checked on every attempt, since DNS can change between them
+      await assertPublicUrl(target.webhookUrl, allowPrivate);
+    } catch (err) {
+      statusCode = null;
+      error = (err as Error).message;
+      break;
+    }
+    try {
+      // Redirects are not followed: they could lead to a private address
+      const response = await fetchFn(target.webhookUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'User-Agent': 'Speedstein' },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      statusCode = response.status;
+      error = response.ok ? null : `Webhook returned ${response.status}`;
+    } catch (err) {
+      statusCode = null;
+      error = err instanceof Error ? err.message : String(err);
+    }
+    if (!error || !isRetryable(statusCode) || attempts > retries) break;
+    await sleep(retryDelayMs * 2 ** (attempts - 1));
+  }
+
+  return {
+    id: `dlv_${now()}_${Math.random().toString(36).slice(2, 8)}`,
+    ruleId: alert.ruleId,
+    webhookUrl: target.webhookUrl,
+    format: target.format,
+    alert,
+    status: error ? 'failed' : 'delivered',
+    attempts,
+    statusCode,
+    error,
+    deliveredAt: now(),
+  };
+}
@@ -1,7 +1,32 @@
-import type { SpeedTestResult, CoreWebVitals, ResourceItem, AuditItem, ScreenshotItem } from '@/types';
+import type {
+  SpeedTestResult, CoreWebVitals, ResourceItem, AuditItem, ScreenshotItem, Strategy, LighthouseCategory,
+  ThirdPartyEntity, CriticalPath, RequestChainNode, AuditDetails, AuditValueType, MainThreadBreakdown,
+  MainThreadCategory, BootupTime, FieldData, FieldExperience, FieldMetric, FieldCategory,
+} from '@/types';
+import { formatBytes, formatMs } from './utils';
 
 const PSI_API = 'https://www.googleapis.com/pagespeedonline/v5/runPagespeed';
 
+export const STRATEGIES: Strategy[] = ['mobile', 'desktop'];
+
+export const CATEGORIES: LighthouseCategory[] = ['performance', 'accessibility', 'best-practices', 'seo'];
+
+export interface RunOptions {
+  strategy?: Strategy;
+  // Performance is always fetched; pass CATEGORIES to opt in to the full audit
+  categories?: LighthouseCategory[];
+  apiKey?: string;
+  endpoint?: string; // defaults to the public PSI endpoint
+}
+
+// Carries the upstream HTTP status so callers can tell quota errors from bad URLs.
+export class SpeedTestError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = 'SpeedTestError';
+  }
+}
+
 function normalizeUrl(input: string): string {
   let url = input.trim();
   if (!/^https?:\/\//i.test(url)) {
@@ -12,6 +37,10 @@ function normalizeUrl(input: string): string {
   return url;
 }
 
+export function createResultId(): string {
+  return `test_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
 function scoreToGrade(score: number): string {
   if (score >= 90) return 'A';
   if (score >= 80) return 'B';
@@ -42,6 +71,54 @@ function extractVitals(lighthouseResult: Record<string, unknown>): CoreWebVitals
   };
 }
 
+const FIELD_METRICS: Record<string, keyof CoreWebVitals> = {
+  LARGEST_CONTENTFUL_PAINT_MS: 'lcp',
+  CUMULATIVE_LAYOUT_SHIFT_SCORE: 'cls',
+  INTERACTION_TO_NEXT_PAINT: 'inp',
+  FIRST_CONTENTFUL_PAINT_MS: 'fcp',
+  EXPERIMENTAL_TIME_TO_FIRST_BYTE: 'ttfb',
+  FIRST_INPUT_DELAY_MS: 'fid',
+};
+
+function extractFieldExperience(experience: Record<string, unknown> | undefined): FieldExperience | null {
+  const metrics = experience?.metrics as Record<string, Record<string, unknown>> | undefined;
+  if (!experience || !metrics) return null;
+
+  const result: FieldExperience = {
+    overallCategory: (experience.overall_category as FieldCategory) ?? null,
+    metrics: {},
+  };
+
+  for (const [cruxKey, vital] of Object.entries(FIELD_METRICS)) {
+    const metric = metrics[cruxKey];
+    if (!metric || typeof metric.percentile !== 'number') continue;
+    // CrUX reports CLS multiplied by 100
+    const p75 = vital === 'cls' ? metric.percentile / 100 : metric.percentile;
+    const buckets = (metric.distributions as Array<Record<string, number>>) || [];
+    const field: FieldMetric = {
+      p75,
+      category: metric.category as FieldCategory,
+      distribution: {
+        fast: buckets[0]?.proportion ?? 0,
+        average: buckets[1]?.proportion ?? 0,
+        slow: buckets[2]?.proportion ?? 0,
+      },
+    };
+    result.metrics[vital] = field;
+  }
+
+  return result;
+}
+
+function extractFieldData(data: Record<string, unknown>): FieldData {
+  const page = data.loadingExperience as Record<string, unknown> | undefined;
+  return {
+    // PSI copies origin data into loadingExperience when the page itself has too little traffic
+    page: page?.origin_fallback ? null : extractFieldExperience(page),
+    origin: extractFieldExperience(data.originLoadingExperience as Record<string, unknown> | undefined),
+  };
+}
+
 function extractResources(lighthouseResult: Record<string, unknown>): ResourceItem[] {
   const audits = lighthouseResult.audits as Record<string, Record<string, unknown>>;
   const networkAudit = audits?.['network-requests'];
@@ -58,57 +135,279 @@ function extractResources(lighthouseResult: Record<string, unknown>): ResourceIt
     Document: 'document',
   };
 
-  return items
-    .filter((item) => (item.transferSize as number) > 0)
-    .slice(0, 50)
-    .map((item) => ({
+  // Every request, including cache hits, which transfer nothing
+  return items.map((item) => {
+    // Lighthouse 10+ names the timings networkRequestTime and networkEndTime
+    const start = (item.startTime ?? item.networkRequestTime ?? 0) as number;
+    const end = (item.endTime ?? item.networkEndTime ?? start) as number;
+    const transferSize = Math.round((item.transferSize as number) || 0);
+    const resourceSize = typeof item.resourceSize === 'number' ? Math.round(item.resourceSize) : undefined;
+    return {
       url: (item.url as string) || '',
       type: typeMap[item.resourceType as string] || 'other',
-      transferSize: Math.round(item.transferSize as number),
-      startTime: Math.round(item.startTime as number),
-      duration: Math.round((item.endTime as number) - (item.startTime as number)),
+      transferSize,
+      startTime: Math.round(start),
+      duration: Math.round(end - start),
+      resourceSize,
+      mimeType: (item.mimeType as string) || undefined,
+      statusCode: typeof item.statusCode === 'number' ? item.statusCode : undefined,
+      protocol: (item.protocol as string) || undefined,
+      priority: (item.priority as ResourceItem['priority']) || undefined,
+      cached: transferSize === 0 && (resourceSize ?? 0) > 0 && !(item.url as string)?.startsWith('data:'),
+      entity: typeof item.entity === 'string' ? item.entity : undefined,
+    };
+  });
+}
+
+function extractThirdParties(lighthouseResult: Record<string, unknown>): ThirdPartyEntity[] {
+  const audits = lighthouseResult.audits as Record<string, Record<string, unknown>>;
+  const details = audits?.['third-party-summary']?.details as Record<string, unknown> | undefined;
+  const items = (details?.items as Array<Record<string, unknown>>) || [];
+  const num = (value: unknown) => (typeof value === 'number' ? Math.round(value) : 0);
+
+  return items.map((item) => {
+    // Older Lighthouse versions report the entity as a link object
+    const entity = item.entity as string | { text?: string } | undefined;
+    const subItems = ((item.subItems as Record<string, unknown>)?.items as Array<Record<string, unknown>>) || [];
+    return {
+      name: (typeof entity === 'string' ? entity : entity?.text) || 'Unknown',
+      transferSize: num(item.transferSize),
+      blockingTime: num(item.blockingTime),
+      mainThreadTime: num(item.mainThreadTime),
+      urls: subItems
+        .filter((sub) => typeof sub.url === 'string')
+        .map((sub) => ({
+          url: sub.url as string,
+          transferSize: num(sub.transferSize),
+          blockingTime: num(sub.blockingTime),
+          mainThreadTime: num(sub.mainThreadTime),
+        })),
+    };
+  });
+}
+
+interface RawChain {
+  request?: { url?: string; startTime?: number; endTime?: number; transferSize?: number };
+  children?: Record<string, RawChain>;
+}
+
+function extractCriticalPath(lighthouseResult: Record<string, unknown>): CriticalPath | undefined {
+  const audits = lighthouseResult.audits as Record<string, Record<string, unknown>>;
+  const chainDetails = audits?.['critical-request-chains']?.details as Record<string, unknown> | undefined;
+  const blockingDetails = audits?.['render-blocking-resources']?.details as Record<string, unknown> | undefined;
+  if (!chainDetails && !blockingDetails) return undefined;
+
+  const roots = Object.values((chainDetails?.chains as Record<string, RawChain>) || {});
+  // Chain timings are monotonic timestamps in seconds; make them ms from the first request
+  const origin = Math.min(...roots.map((c) => c.request?.startTime ?? Infinity));
+  const toMs = (seconds: number | undefined) => (seconds === undefined ? 0 : Math.round((seconds - origin) * 1000));
+  const toNode = (chain: RawChain): RequestChainNode => ({
+    url: chain.request?.url || '',
+    startTime: toMs(chain.request?.startTime),
+    endTime: toMs(chain.request?.endTime),
+    transferSize: Math.round(chain.request?.transferSize || 0),
+    children: Object.values(chain.children || {}).map(toNode),
+  });
+
+  const longest = chainDetails?.longestChain as Record<string, number> | undefined;
+  const items = (blockingDetails?.items as Array<Record<string, unknown>>) || [];
+
+  return {
+    chains: roots.map(toNode),
+    longestChain: longest
+      ? { duration: Math.round(longest.duration || 0), length: longest.length || 0, transferSize: Math.round(longest.transferSize || 0) }
+      : null,
+    renderBlocking: items
+      .filter((item) => typeof item.url === 'string')
+      .map((item) => ({
+        url: item.url as string,
+        transferSize: Math.round((item.totalBytes as number) || 0),
+        wastedMs: Math.round((item.wastedMs as number) || 0),
+      })),
+    renderBlockingSavingsMs: Math.round((blockingDetails?.overallSavingsMs as number) || 0),
+  };
+}
+
+const MAIN_THREAD_CATEGORIES: MainThreadCategory[] = [
+  'scriptEvaluation', 'scriptParseCompile', 'styleLayout', 'paintCompositeRender', 'parseHTML', 'garbageCollection', 'other',
+];
+
+function extractMainThread(lighthouseResult: Record<string, unknown>): MainThreadBreakdown | undefined {
+  const audits = lighthouseResult.audits as Record<string, Record<string, unknown>>;
+  const audit = audits?.['mainthread-work-breakdown'];
+  const items = ((audit?.details as Record<string, unknown>)?.items as Array<Record<string, unknown>>) || [];
+  if (items.length === 0) return undefined;
+
+  // Groups added by newer Lighthouse versions count as other
+  const durations = new Map<MainThreadCategory, number>();
+  for (const item of items) {
+    const group = item.group as MainThreadCategory;
+    const category = MAIN_THREAD_CATEGORIES.includes(group) ? group : 'other';
+    durations.set(category, (durations.get(category) ?? 0) + ((item.duration as number) || 0));
+  }
+
+  const categories = [...durations]
+    .map(([category, duration]) => ({ category, duration: Math.round(duration) }))
+    .sort((a, b) => b.duration - a.duration);
+  return {
+    totalMs: Math.round((audit.numericValue as number) ?? categories.reduce((sum, c) => sum + c.duration, 0)),
+    categories,
+  };
+}
+
+function extractBootup(lighthouseResult: Record<string, unknown>): BootupTime | undefined {
+  const audits = lighthouseResult.audits as Record<string, Record<string, unknown>>;
+  const audit = audits?.['bootup-time'];
+  if (!audit) return undefined;
+  const items = ((audit.details as Record<string, unknown>)?.items as Array<Record<string, unknown>>) || [];
+
+  const scripts = items
+    .filter((item) => typeof item.url === 'string')
+    .map((item) => ({
+      url: item.url as string,
+      total: Math.round((item.total as number) || 0),
+      scripting: Math.round((item.scripting as number) || 0),
+      parseCompile: Math.round((item.scriptParseCompile as number) || 0),
+    }))
+    .sort((a, b) => b.total - a.total);
+  return {
+    totalMs: Math.round((audit.numericValue as number) ?? scripts.reduce((sum, s) => sum + s.scripting + s.parseCompile, 0)),
+    scripts,
+  };
+}
+
+// Keeps stored results small when an audit flags hundreds of elements
+const MAX_AUDIT_DETAIL_ITEMS = 100;
+
+const VALUE_TYPES: Record<string, AuditValueType> = {
+  url: 'url',
+  'source-location': 'url',
+  bytes: 'bytes',
+  ms: 'ms',
+  timespanMs: 'ms',
+  numeric: 'numeric',
+};
+
+// Table cells are plain values or typed objects such as urls, DOM nodes and source locations
+function flattenValue(value: unknown): string | number | null {
+  if (typeof value === 'string' || typeof value === 'number') return value;
+  if (!value || typeof value !== 'object') return null;
+  const v = value as Record<string, unknown>;
+  switch (v.type) {
+    case 'node':
+      return ((v.nodeLabel || v.snippet || v.selector) as string) || null;
+    case 'source-location': {
+      if (typeof v.url !== 'string') return null;
+      // Line and column are zero-based, and either can be missing
+      if (typeof v.line !== 'number') return v.url;
+      return typeof v.column === 'number' ? `${v.url}:${v.line + 1}:${v.column + 1}` : `${v.url}:${v.line + 1}`;
+    }
+    case 'link':
+      return ((v.text || v.url) as string) || null;
+    default:
+      return 'value' in v ? flattenValue(v.value) : null;
+  }
+}
+
+function extractAuditDetails(details: Record<string, unknown> | undefined): AuditDetails | undefined {
+  const items = (details?.items as Array<Record<string, unknown>>) || [];
+  // Older Lighthouse versions call these itemType and text; thumbnails are left out
+  const headings = ((details?.headings as Array<Record<string, unknown>>) || [])
+    .filter((h) => typeof h.key === 'string' && (h.valueType ?? h.itemType) !== 'thumbnail')
+    .map((h) => ({
+      key: h.key as string,
+      label: ((h.label ?? h.text) as string) || '',
+      valueType: VALUE_TYPES[(h.valueType ?? h.itemType) as string] || 'text',
     }));
+  if (items.length === 0 || headings.length === 0) return undefined;
+
+  return {
+    headings,
+    items: items.slice(0, MAX_AUDIT_DETAIL_ITEMS).map((item) =>
+      Object.fromEntries(headings.map((h) => [h.key, flattenValue(item[h.key])]))),
+    totalItems: items.length,
+  };
+}
+
+// Opportunities report overallSavingsMs; Lighthouse 11+ also estimates per-metric savings
+function extractSavingsMs(audit: Record<string, unknown>, details: Record<string, unknown> | undefined): number | undefined {
+  if (typeof details?.overallSavingsMs === 'number') return Math.round(details.overallSavingsMs) || undefined;
+  const metricSavings = audit.metricSavings as Record<string, number> | undefined;
+  if (!metricSavings) return undefined;
+  const ms = Math.max(0, ...['FCP', 'LCP', 'TBT', 'INP'].map((m) => metricSavings[m] ?? 0));
+  return Math.round(ms) || undefined;
+}
+
+function formatSavings(ms: number | undefined, bytes: number | undefined): string | undefined {
+  const parts = [ms && formatMs(ms), bytes && formatBytes(bytes)].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : undefined;
 }
 
 function extractAudits(lighthouseResult: Record<string, unknown>): AuditItem[] {
   const audits = lighthouseResult.audits as Record<string, Record<string, unknown>>;
   const categories = lighthouseResult.categories as Record<string, Record<string, unknown>>;
-  const perfCategory = categories?.performance;
-  if (!perfCategory) return [];
-
-  const auditRefs = (perfCategory.auditRefs as Array<Record<string, unknown>>) || [];
   const result: AuditItem[] = [];
 
-  for (const ref of auditRefs) {
-    const id = ref.id as string;
-    const audit = audits?.[id];
-    if (!audit || audit.score === null || audit.score === undefined) continue;
-    const score = audit.score as number;
-    // Only include failed/warning audits
-    if (score >= 0.9) continue;
-
-    let impact: AuditItem['impact'] = 'low';
-    const weight = (ref.weight as number) || 0;
-    if (weight >= 10 || score < 0.3) impact = 'high';
-    else if (weight >= 5 || score < 0.5) impact = 'medium';
-
-    result.push({
-      id,
-      title: audit.title as string,
-      description: (audit.description as string) || '',
-      score,
-      displayValue: audit.displayValue as string | undefined,
-      impact,
-      savings: audit.displayValue as string | undefined,
-    });
+  for (const category of CATEGORIES) {
+    const categoryData = categories?.[category];
+    if (!categoryData) continue;
+
+    const auditRefs = (categoryData.auditRefs as Array<Record<string, unknown>>) || [];
+
+    for (const ref of auditRefs) {
+      const id = ref.id as string;
+      const audit = audits?.[id];
+      if (!audit || audit.score === null || audit.score === undefined) continue;
+      const score = audit.score as number;
+      // Only include failed/warning audits
+      if (score >= 0.9) continue;
+
+      let impact: AuditItem['impact'] = 'low';
+      const weight = (ref.weight as number) || 0;
+      if (weight >= 10 || score < 0.3) impact = 'high';
+      else if (weight >= 5 || score < 0.5) impact = 'medium';
+
+      const details = audit.details as Record<string, unknown> | undefined;
+      const overallSavingsMs = extractSavingsMs(audit, details);
+      const overallSavingsBytes = typeof details?.overallSavingsBytes === 'number'
+        ? Math.round(details.overallSavingsBytes) || undefined
+        : undefined;
+
+      result.push({
+        id,
+        title: audit.title as string,
+        description: (audit.description as string) || '',
+        score,
+        displayValue: audit.displayValue as string | undefined,
+        impact,
+        savings: formatSavings(overallSavingsMs, overallSavingsBytes),
+        overallSavingsMs,
+        overallSavingsBytes,
+        category,
+        details: extractAuditDetails(details),
+      });
+    }
   }
 
+  // Within an impact level, the biggest time savings come first
   return result.sort((a, b) => {
     const order = { high: 0, medium: 1, low: 2 };
-    return order[a.impact] - order[b.impact];
+    return order[a.impact] - order[b.impact] ||
+      (b.overallSavingsMs ?? 0) - (a.overallSavingsMs ?? 0) ||
+      (b.overallSavingsBytes ?? 0) - (a.overallSavingsBytes ?? 0);
   });
 }
 
+function extractCategoryScores(lighthouseResult: Record<string, unknown>): SpeedTestResult['categoryScores'] {
+  const categories = lighthouseResult.categories as Record<string, Record<string, unknown>>;
+  const scores: SpeedTestResult['categoryScores'] = {};
+  for (const category of CATEGORIES) {
+    const score = categories?.[category]?.score;
+    if (typeof score === 'number') scores[category] = Math.round(score * 100);
+  }
+  return scores;
+}
+
 function extractScreenshots(lighthouseResult: Record<string, unknown>): ScreenshotItem[] {
   const audits = lighthouseResult.audits as Record<string, Record<string, unknown>>;
   const timeline = audits?.['screenshot-thumbnails'];
@@ -132,41 +431,52 @@ function extractFinalScreenshot(lighthouseResult: Record<string, unknown>): stri
   return details.data as string | undefined;
 }
 
-export async function runSpeedTest(inputUrl: string): Promise<SpeedTestResult> {
+export async function runSpeedTest(inputUrl: string, options: RunOptions = {}): Promise<SpeedTestResult> {
   const url = normalizeUrl(inputUrl);
+  const strategy = options.strategy ?? 'mobile';
+  const categories = CATEGORIES.filter((c) => c === 'performance' || options.categories?.includes(c));
   const startTime = Date.now();
 
-  const apiUrl = `${PSI_API}?url=${encodeURIComponent(url)}&strategy=mobile&category=performance`;
+  const categoryParams = categories.map((c) => `&category=${c}`).join('');
+  const keyParam = options.apiKey ? `&key=${encodeURIComponent(options.apiKey)}` : '';
+  const apiUrl = `${options.endpoint ?? PSI_API}?url=${encodeURIComponent(url)}&strategy=${strategy}${categoryParams}${keyParam}`;
 
   const response = await fetch(apiUrl);
 
   if (!response.ok) {
     const errorData = await response.json().catch(() => null);
     const message = (errorData as Record<string, Record<string, string>>)?.error?.message || `API returned ${response.status}`;
-    throw new Error(message);
+    throw new SpeedTestError(message, response.status);
   }
 
   const data = await response.json();
   const lighthouseResult = data.lighthouseResult;
 
   if (!lighthouseResult) {
-    throw new Error('No Lighthouse results returned. The URL may be unreachable.');
+    throw new SpeedTestError('No Lighthouse results returned. The URL may be unreachable.');
   }
 
   const perfScore = Math.round(
     ((lighthouseResult.categories?.performance?.score as number) || 0) * 100
   );
 
-  const id = `test_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  const id = createResultId();
 
   return {
     id,
     url,
+    strategy,
     timestamp: Date.now(),
     score: perfScore,
     grade: scoreToGrade(perfScore),
+    categoryScores: extractCategoryScores(lighthouseResult),
     vitals: extractVitals(lighthouseResult),
+    fieldData: extractFieldData(data),
     resources: extractResources(lighthouseResult),
+    thirdParties: extractThirdParties(lighthouseResult),
+    criticalPath: extractCriticalPath(lighthouseResult),
+    mainThread: extractMainThread(lighthouseResult),
+    bootup: extractBootup(lighthouseResult),
     audits: extractAudits(lighthouseResult),
     screenshots: extractScreenshots(lighthouseResult),
     fetchTime: Date.now() - startTime,
@@ -174,4 +484,13 @@ export async function runSpeedTest(inputUrl: string): Promise<SpeedTestResult> {
   };
 }
 
+// Runs one test per strategy in parallel, in the order given.
+export function runSpeedTests(
+  inputUrl: string,
+  strategies: Strategy[] = STRATEGIES,
+  options: Omit<RunOptions, 'strategy'> = {},
+): Promise<SpeedTestResult[]> {
+  return Promise.all(strategies.map((strategy) => runSpeedTest(inputUrl, { ...options, strategy })));
+}
+
 export { normalizeUrl, scoreToGrade };
@@ -0,0 +1,120 @@
+import type { BatchItem, CoreWebVitals, SpeedTestResult } from '@/types';
+import { normalizeUrl, SpeedTestError } from './api';
+
+export interface BatchOptions {
+  concurrency?: number;
+  retries?: number; // extra attempts after a rate-limit error
+  retryDelayMs?: number; // first backoff, doubled on every retry
+  signal?: AbortSignal; // stops starting new URLs; running ones finish
+  onUpdate?: (index: number, item: BatchItem) => void;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export type BatchMetric = 'score' | keyof Pick<CoreWebVitals, 'lcp' | 'fcp' | 'cls' | 'tbt' | 'si' | 'ttfb'>;
+
+export const BATCH_METRICS: BatchMetric[] = ['score', 'lcp', 'fcp', 'cls', 'tbt', 'si', 'ttfb'];
+
+export interface MetricAggregate {
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+}
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// PSI answers 429 when the per-minute quota is used up; anything else is a real failure
+export function isRateLimited(err: unknown): boolean {
+  return err instanceof SpeedTestError && err.status === 429;
+}
+
+// Reads URLs from pasted text or a .txt/.csv file: one per line, first column
+// of CSV rows, blank lines, `#` comments and header rows skipped.
+export function parseUrlList(text: string): { urls: string[]; invalid: string[] } {
+  const urls = new Set<string>();
+  const invalid: string[] = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    const quoted = /^\s*"([^"]*)"/.exec(line);
+    const field = (quoted ? quoted[1] : line.split(/[,\t]/)[0]).trim();
+    if (!field || field.startsWith('#') || /^(url|urls|loc|address)$/i.test(field)) continue;
+    try {
+      urls.add(normalizeUrl(field));
+    } catch {
+      invalid.push(field);
+    }
+  }
+
+  return { urls: [...urls], invalid };
+}
+
+// Runs every URL through `run`, at most `concurrency` at a time, retrying
+// rate-limited attempts with exponential backoff. Never rejects: failures
+// are recorded on the returned items.
+export async function runBatch(
+  urls: string[],
+  run: (url: string) => Promise<SpeedTestResult>,
+  options: BatchOptions = {},
+): Promise<BatchItem[]> {
+  const { concurrency = 2, retries = 3, retryDelayMs = 10_000, signal, onUpdate, sleep = defaultSleep } = options;
+  const items: BatchItem[] = urls.map((url) => ({ url, status: 'queued', attempts: 0, result: null, error: null }));
+
+  const update = (index: number, patch: Partial<BatchItem>) => {
+    items[index] = { ...items[index], ...patch };
+    onUpdate?.(index, items[index]);
+  };
+
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length && !signal?.aborted) {
+      const index = next++;
+      for (let attempt = 1; ; attempt++) {
+        update(index, { status: 'running', attempts: attempt });
+        try {
+          update(index, { status: 'done', result: await run(items[index].url), error: null });
+          break;
+        } catch (err) {
+          const message = err instanceof Error ? err.message : 'Analysis failed';
+          if (!isRateLimited(err) || attempt > retries || signal?.aborted) {
+            update(index, { status: 'failed', error: message });
+            break;
+          }
+          update(index, { status: 'retrying', error: message });
+          await sleep(retryDelayMs * 2 ** (attempt - 1));
+        }
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker));
+
+  items.forEach((item, i) => {
+    if (item.status === 'queued') update(i, { status: 'cancelled' });
+  });
+  return items;
+}
+
+export function getBatchValue(result: SpeedTestResult, metric: BatchMetric): number | null {
+  return metric === 'score' ? result.score : result.vitals[metric];
+}
+
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Min, max, mean and median per metric across finished runs; null when no run reported it
+export function aggregateResults(results: SpeedTestResult[]): Record<BatchMetric, MetricAggregate | null> {
+  const aggregates = {} as Record<BatchMetric, MetricAggregate | null>;
+  for (const metric of BATCH_METRICS) {
+    const values = results.map((r) => getBatchValue(r, metric)).filter((v): v is number => v !== null);
+    aggregates[metric] = values.length === 0 ? null : {
+      min: Math.min(...values),
+      max: Math.max(...values),
+      mean: values.reduce((sum, v) => sum + v, 0) / values.length,
+      median: median(values),
+    };
+  }
+  return aggregates;
+}
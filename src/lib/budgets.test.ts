@@ -0,0 +1,86 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Budget, ResourceItem, SpeedTestResult } from '@/types';
+import { evaluateBudget, evaluateBudgets, findBudget, patternMatches } from './budgets';
+
+function result(overrides: Partial<SpeedTestResult> = {}): SpeedTestResult {
+  return {
+    id: 'test_1',
+    url: 'https://example.com/',
+    strategy: 'mobile',
+    timestamp: 0,
+    score: 85,
+    grade: 'B',
+    categoryScores: { performance: 85 },
+    vitals: { lcp: 2000, fid: null, cls: 0.05, ttfb: 300, fcp: 1200, inp: null, si: 2500, tbt: 150 },
+    fieldData: { page: null, origin: null },
+    resources: [],
+    audits: [],
+    screenshots: [],
+    fetchTime: 10,
+    ...overrides,
+  };
+}
+
+function budget(overrides: Partial<Budget> = {}): Budget {
+  return { id: 'b1', pattern: '*', vitals: {}, resourceSizes: {}, ...overrides };
+}
+
+function resource(type: ResourceItem['type'], transferSize: number): ResourceItem {
+  return { url: `https://example.com/${type}-${transferSize}`, type, transferSize, startTime: 0, duration: 10 };
+}
+
+test('patterns match with or without a scheme', () => {
+  assert.ok(patternMatches('example.com/blog/*', 'https://example.com/blog/post'));
+  assert.ok(patternMatches('https://example.com/*', 'https://example.com/a/b'));
+  assert.ok(!patternMatches('https://example.com/*', 'http://example.com/a'));
+  assert.ok(patternMatches('*', 'https://anything.test/page'));
+});
+
+test('a trailing /* also covers the bare origin', () => {
+  assert.ok(patternMatches('example.com/*', 'https://example.com'));
+  assert.ok(patternMatches('example.com/*', 'https://example.com/'));
+  assert.ok(!patternMatches('example.com/*', 'https://example.com.evil.test/'));
+  assert.ok(!patternMatches('example.com/blog/*', 'https://example.com/'));
+});
+
+test('patterns are anchored and escape regex characters', () => {
+  assert.ok(!patternMatches('example.com', 'https://example.com/page'));
+  assert.ok(!patternMatches('example.com', 'https://exampleXcom/'));
+  assert.ok(patternMatches('EXAMPLE.com', 'https://example.com/'));
+});
+
+test('the most specific budget wins', () => {
+  const budgets = [budget({ id: 'all', pattern: '*' }), budget({ id: 'blog', pattern: 'example.com/blog/*' })];
+  assert.equal(findBudget('https://example.com/blog/post', budgets)?.id, 'blog');
+  assert.equal(findBudget('https://example.com/', budgets)?.id, 'all');
+  assert.equal(evaluateBudgets(result(), []), null);
+});
+
+test('score and numeric vital limits', () => {
+  const outcome = evaluateBudget(result({ score: 70 }), budget({ minScore: 80, vitals: { lcp: 2500, tbt: 100 } }));
+  assert.equal(outcome.checks, 3);
+  assert.equal(outcome.passed, false);
+  assert.deepEqual(outcome.violations.map((v) => v.metric), ['score', 'tbt']);
+});
+
+test('rating limits fail on a worse rating and report its threshold', () => {
+  const outcome = evaluateBudget(
+    result({ vitals: { ...result().vitals, lcp: 3000, cls: null } }),
+    budget({ vitals: { lcp: 'good', cls: 'good' } }),
+  );
+  // A missing vital is not checked
+  assert.equal(outcome.checks, 1);
+  assert.deepEqual(outcome.violations, [{ metric: 'lcp', label: 'LCP', actual: 3000, limit: 2500, unit: 'ms' }]);
+  assert.ok(evaluateBudget(result({ vitals: { ...result().vitals, lcp: 3000 } }), budget({ vitals: { lcp: 'needs-improvement' } })).passed);
+});
+
+test('resource sizes are summed per type and in total', () => {
+  const resources = [resource('script', 300), resource('script', 200), resource('image', 1000), resource('document', 50)];
+  const outcome = evaluateBudget(result({ resources }), budget({ resourceSizes: { script: 400, image: 1000, total: 1500, font: 1 } }));
+  assert.equal(outcome.checks, 4);
+  assert.deepEqual(
+    outcome.violations.map((v) => [v.metric, v.actual, v.limit]),
+    [['size:total', 1550, 1500], ['size:script', 500, 400]],
+  );
+});
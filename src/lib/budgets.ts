@@ -0,0 +1,152 @@
+import type { Budget, BudgetResourceKey, BudgetResult, BudgetViolation, CoreWebVitals, SpeedTestResult } from '@/types';
+import { getVitalRating, formatBytes, formatMs, VITAL_THRESHOLDS } from './utils';
+
+export const BUDGET_VITALS: { key: keyof CoreWebVitals; label: string }[] = [
+  { key: 'lcp', label: 'LCP' },
+  { key: 'fcp', label: 'FCP' },
+  { key: 'cls', label: 'CLS' },
+  { key: 'tbt', label: 'TBT' },
+  { key: 'si', label: 'Speed Index' },
+  { key: 'ttfb', label: 'TTFB' },
+];
+
+export const BUDGET_RESOURCES: { key: BudgetResourceKey; label: string }[] = [
+  { key: 'total', label: 'Total' },
+  { key: 'script', label: 'JavaScript' },
+  { key: 'stylesheet', label: 'CSS' },
+  { key: 'image', label: 'Images' },
+  { key: 'font', label: 'Fonts' },
+  { key: 'document', label: 'HTML' },
+  { key: 'other', label: 'Other' },
+];
+
+const RATING_ORDER = { good: 0, 'needs-improvement': 1, poor: 2 };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isLimit = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+// Budgets written by hand, e.g. for the CLI's --budget file
+export function validateBudgetInput(input: unknown, fallbackId: string): Budget {
+  if (!isRecord(input)) throw new Error('A budget must be an object');
+  const { id = fallbackId, pattern = '*', minScore, vitals = {}, resourceSizes = {} } = input;
+
+  if (typeof id !== 'string') throw new Error('id must be a string');
+  if (typeof pattern !== 'string' || !pattern.trim()) throw new Error('pattern must be a non-empty string');
+  if (minScore !== undefined && !(isLimit(minScore) && (minScore as number) <= 100)) {
+    throw new Error('minScore must be a number between 0 and 100');
+  }
+
+  if (!isRecord(vitals)) throw new Error('vitals must be an object');
+  for (const [key, limit] of Object.entries(vitals)) {
+    if (!BUDGET_VITALS.some((v) => v.key === key)) {
+      throw new Error(`Unknown vital "${key}"; use one of ${BUDGET_VITALS.map((v) => v.key).join(', ')}`);
+    }
+    if (!isLimit(limit) && limit !== 'good' && limit !== 'needs-improvement') {
+      throw new Error(`vitals.${key} must be a number or "good" or "needs-improvement"`);
+    }
+  }
+
+  if (!isRecord(resourceSizes)) throw new Error('resourceSizes must be an object');
+  for (const [key, limit] of Object.entries(resourceSizes)) {
+    if (!BUDGET_RESOURCES.some((r) => r.key === key)) {
+      throw new Error(`Unknown resource type "${key}"; use one of ${BUDGET_RESOURCES.map((r) => r.key).join(', ')}`);
+    }
+    if (!isLimit(limit)) throw new Error(`resourceSizes.${key} must be a number of bytes`);
+  }
+
+  return {
+    id,
+    pattern: pattern.trim(),
+    ...(minScore !== undefined && { minScore: minScore as number }),
+    vitals: vitals as Budget['vitals'],
+    resourceSizes: resourceSizes as Budget['resourceSizes'],
+  };
+}
+
+function stripScheme(url: string): string {
+  return url.replace(/^https?:\/\//i, '');
+}
+
+export function patternMatches(pattern: string, url: string): boolean {
+  const hasScheme = /^https?:\/\//i.test(pattern);
+  const source = (hasScheme ? pattern : stripScheme(pattern))
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+    // "example.com/*" also covers the bare origin
+    .replace(/\/\.\*$/, '(/.*)?');
+  return new RegExp(`^${source}/?$`, 'i').test(hasScheme ? url : stripScheme(url));
+}
+
+// The most specific (longest) matching pattern wins.
+export function findBudget(url: string, budgets: Budget[]): Budget | undefined {
+  return budgets
+    .filter((b) => patternMatches(b.pattern, url))
+    .sort((a, b) => b.pattern.length - a.pattern.length)[0];
+}
+
+export function evaluateBudget(result: SpeedTestResult, budget: Budget): BudgetResult {
+  const violations: BudgetViolation[] = [];
+  let checks = 0;
+
+  if (budget.minScore !== undefined) {
+    checks += 1;
+    if (result.score < budget.minScore) {
+      violations.push({ metric: 'score', label: 'Performance score', actual: result.score, limit: budget.minScore, unit: 'score' });
+    }
+  }
+
+  for (const { key, label } of BUDGET_VITALS) {
+    const limit = budget.vitals[key];
+    const actual = result.vitals[key];
+    if (limit === undefined || actual === null) continue;
+    checks += 1;
+    const unit = key === 'cls' ? '' : 'ms';
+
+    if (typeof limit === 'number') {
+      if (actual > limit) violations.push({ metric: key, label, actual, limit, unit });
+    } else if (RATING_ORDER[getVitalRating(key, actual)] > RATING_ORDER[limit]) {
+      const [good, poor] = VITAL_THRESHOLDS[key];
+      violations.push({ metric: key, label, actual, limit: limit === 'good' ? good : poor, unit });
+    }
+  }
+
+  const sizes: Partial<Record<BudgetResourceKey, number>> = { total: 0 };
+  for (const r of result.resources) {
+    sizes[r.type] = (sizes[r.type] ?? 0) + r.transferSize;
+    sizes.total! += r.transferSize;
+  }
+
+  for (const { key, label } of BUDGET_RESOURCES) {
+    const limit = budget.resourceSizes[key];
+    if (limit === undefined) continue;
+    checks += 1;
+    const actual = sizes[key] ?? 0;
+    if (actual > limit) {
+      violations.push({ metric: `size:${key}`, label: `${label} size`, actual, limit, unit: 'bytes' });
+    }
+  }
+
+  return {
+    budgetId: budget.id,
+    pattern: budget.pattern,
+    passed: violations.length === 0,
+    checks,
+    violations,
+  };
+}
+
+export function evaluateBudgets(result: SpeedTestResult, budgets: Budget[]): BudgetResult | null {
+  const budget = findBudget(result.url, budgets);
+  return budget ? evaluateBudget(result, budget) : null;
+}
+
+export function formatBudgetValue(value: number, unit: BudgetViolation['unit']): string {
+  switch (unit) {
+    case 'ms': return formatMs(value);
+    case 'bytes': return formatBytes(value);
+    case 'score': return String(value);
+    default: return value.toFixed(3);
+  }
+}
@@ -0,0 +1,56 @@
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+export interface TtlCache<T> {
+  get(key: string): T | undefined;
+  set(key: string, value: T): void;
+  delete(key: string): void;
+  clear(): void;
+}
+
+export interface TtlCacheOptions {
+  maxEntries?: number; // least recently used entries are evicted beyond this
+  now?: () => number; // injectable for tests
+}
+
+// In-memory cache with a fixed time-to-live and a size cap.
+export function createTtlCache<T>(ttlMs: number, { maxEntries = 500, now = Date.now }: TtlCacheOptions = {}): TtlCache<T> {
+  // Map iteration follows insertion order, so re-inserting on read keeps the oldest first
+  const entries = new Map<string, CacheEntry<T>>();
+
+  // Expired keys that are never read again would otherwise stay forever
+  const sweep = () => {
+    const time = now();
+    for (const [key, entry] of entries) {
+      if (entry.expiresAt <= time) entries.delete(key);
+    }
+  };
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      entries.delete(key);
+      if (entry.expiresAt <= now()) return undefined;
+      entries.set(key, entry);
+      return entry.value;
+    },
+    set(key, value) {
+      if (ttlMs <= 0) return;
+      sweep();
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: now() + ttlMs });
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+    delete(key) {
+      entries.delete(key);
+    },
+    clear() {
+      entries.clear();
+    },
+  };
+}
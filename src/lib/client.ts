@@ -0,0 +1,166 @@
+import type {
+  AlertDelivery, AlertRule, HistoryPage, HistoryQuery, LighthouseCategory, Monitor, SharedSnapshot, Snapshot,
+  SpeedTestResult, Strategy,
+} from '@/types';
+import { SpeedTestError, STRATEGIES } from './api';
+
+export const BASE_PATH = process.env.NEXT_PUBLIC_BASE_PATH ?? '';
+
+export interface RequestOptions {
+  strategy?: Strategy;
+  categories?: LighthouseCategory[];
+  fresh?: boolean; // bypass the server cache
+}
+
+async function requestJson<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(`${BASE_PATH}${path}`, init);
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => null);
+    const message = (errorData as Record<string, Record<string, string>>)?.error?.message || `API returned ${response.status}`;
+    throw new SpeedTestError(message, response.status);
+  }
+
+  if (response.status === 204) return undefined as T;
+  return response.json();
+}
+
+function sendJson<T>(path: string, method: string, body: unknown): Promise<T> {
+  return requestJson<T>(path, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+// Browser-side entry point: runs a test through the caching /api/test proxy
+// instead of calling PageSpeed Insights directly.
+export function requestSpeedTest(url: string, options: RequestOptions = {}): Promise<SpeedTestResult> {
+  const params = new URLSearchParams({ url, strategy: options.strategy ?? 'mobile' });
+  for (const category of options.categories ?? []) params.append('category', category);
+  if (options.fresh) params.set('fresh', '1');
+  return requestJson(`/api/test?${params}`);
+}
+
+export function requestSpeedTests(
+  url: string,
+  strategies: Strategy[] = STRATEGIES,
+  options: Omit<RequestOptions, 'strategy'> = {},
+): Promise<SpeedTestResult[]> {
+  return Promise.all(strategies.map((strategy) => requestSpeedTest(url, { ...options, strategy })));
+}
+
+export interface SitemapPages {
+  urls: string[]; // the selected pages
+  total: number; // pages found before filtering
+  sitemaps: string[];
+  errors: { sitemap: string; message: string }[];
+}
+
+export function fetchSitemapPages(
+  url: string,
+  options: { prefix?: string; max?: number; sample?: 'first' | 'spread' } = {},
+): Promise<SitemapPages> {
+  const params = new URLSearchParams({ url });
+  if (options.prefix) params.set('prefix', options.prefix);
+  if (options.max) params.set('max', String(options.max));
+  if (options.sample) params.set('sample', options.sample);
+  return requestJson(`/api/sitemap?${params}`);
+}
+
+export function fetchMonitors(): Promise<Monitor[]> {
+  return requestJson('/api/monitors');
+}
+
+export function fetchMonitor(id: string, page = 1): Promise<{ monitor: Monitor; runs: HistoryPage }> {
+  return requestJson(`/api/monitors/${encodeURIComponent(id)}?page=${page}`);
+}
+
+export function createMonitor(input: Pick<Monitor, 'url' | 'strategy' | 'intervalMinutes'>): Promise<Monitor> {
+  return sendJson('/api/monitors', 'POST', input);
+}
+
+export function updateMonitor(id: string, patch: Partial<Pick<Monitor, 'paused' | 'intervalMinutes'>>): Promise<Monitor> {
+  return sendJson(`/api/monitors/${encodeURIComponent(id)}`, 'PATCH', patch);
+}
+
+export function deleteMonitor(id: string): Promise<void> {
+  return requestJson(`/api/monitors/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+export function fetchAlertRules(): Promise<AlertRule[]> {
+  return requestJson('/api/alerts');
+}
+
+export function createAlertRule(input: Pick<AlertRule, 'name' | 'pattern' | 'condition' | 'webhookUrl' | 'format'>): Promise<AlertRule> {
+  return sendJson('/api/alerts', 'POST', input);
+}
+
+export function updateAlertRule(id: string, patch: Partial<Pick<AlertRule, 'enabled'>>): Promise<AlertRule> {
+  return sendJson(`/api/alerts/${encodeURIComponent(id)}`, 'PATCH', patch);
+}
+
+export function deleteAlertRule(id: string): Promise<void> {
+  return requestJson(`/api/alerts/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+export function sendTestAlert(id: string): Promise<AlertDelivery> {
+  return sendJson(`/api/alerts/${encodeURIComponent(id)}/test`, 'POST', {});
+}
+
+export function fetchAlertDeliveries(ruleId?: string): Promise<AlertDelivery[]> {
+  return requestJson(`/api/alerts/deliveries${ruleId ? `?rule=${encodeURIComponent(ruleId)}` : ''}`);
+}
+
+export function fetchHistory(query: HistoryQuery = {}): Promise<HistoryPage> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined) params.set(key, String(value));
+  }
+  return requestJson(`/api/history?${params}`);
+}
+
+export function fetchHistoryResult(id: string): Promise<SpeedTestResult> {
+  return requestJson(`/api/history/${encodeURIComponent(id)}`);
+}
+
+export function saveHistoryResult(result: SpeedTestResult): Promise<void> {
+  return sendJson('/api/history', 'POST', result);
+}
+
+export function deleteHistoryResult(id: string): Promise<void> {
+  return requestJson(`/api/history/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+export function clearServerHistory(): Promise<void> {
+  return requestJson('/api/history', { method: 'DELETE' });
+}
+
+export function createSnapshot(
+  result: SpeedTestResult,
+  expiresIn: number | null,
+  firstPartyDomains: string[] = [],
+): Promise<SharedSnapshot> {
+  return sendJson('/api/snapshots', 'POST', { result, expiresIn, firstPartyDomains });
+}
+
+export function fetchSnapshot(id: string): Promise<Snapshot> {
+  return requestJson(`/api/snapshots/${encodeURIComponent(id)}`);
+}
+
+export function deleteSnapshot(id: string, deleteToken: string): Promise<void> {
+  return requestJson(`/api/snapshots/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+    headers: { 'X-Delete-Token': deleteToken },
+  });
+}
+
+export async function requestPdfReport(result: SpeedTestResult): Promise<Blob> {
+  const response = await fetch(`${BASE_PATH}/api/report/pdf`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(result),
+  });
+  if (!response.ok) throw new SpeedTestError(`PDF export failed with ${response.status}`, response.status);
+  return response.blob();
+}
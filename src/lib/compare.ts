@@ -0,0 +1,78 @@
+import type { CoreWebVitals, SpeedTestResult, Strategy } from '@/types';
+
+export const MIN_SITES = 2;
+export const MAX_SITES = 6;
+
+export interface CompareMetric {
+  key: 'score' | keyof CoreWebVitals;
+  label: string;
+  higherIsBetter: boolean;
+}
+
+export const COMPARE_METRICS: CompareMetric[] = [
+  { key: 'score', label: 'Score', higherIsBetter: true },
+  { key: 'lcp', label: 'LCP', higherIsBetter: false },
+  { key: 'fcp', label: 'FCP', higherIsBetter: false },
+  { key: 'cls', label: 'CLS', higherIsBetter: false },
+  { key: 'tbt', label: 'TBT', higherIsBetter: false },
+  { key: 'si', label: 'SI', higherIsBetter: false },
+  { key: 'ttfb', label: 'TTFB', higherIsBetter: false },
+];
+
+export interface LeaderboardEntry {
+  index: number; // column of the site
+  result: SpeedTestResult;
+  rank: number; // 1-based; tied sites share a rank
+  wins: number; // metrics this site won or tied for
+}
+
+export function siteLabel(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+export function getMetricValue(result: SpeedTestResult, key: CompareMetric['key']): number | null {
+  return key === 'score' ? result.score : result.vitals[key];
+}
+
+// Columns holding the best value for a metric; ties all win. No winner until two sites have a value.
+export function findWinners(results: (SpeedTestResult | null)[], metric: CompareMetric): number[] {
+  const values = results.map((r) => (r ? getMetricValue(r, metric.key) : null));
+  const present = values.filter((v): v is number => v !== null);
+  if (present.length < 2) return [];
+  const best = metric.higherIsBetter ? Math.max(...present) : Math.min(...present);
+  return values.flatMap((v, i) => (v === best ? [i] : []));
+}
+
+// Ranked by score, then by the number of metrics won
+export function rankSites(results: (SpeedTestResult | null)[]): LeaderboardEntry[] {
+  const wins = results.map(() => 0);
+  for (const metric of COMPARE_METRICS) {
+    for (const index of findWinners(results, metric)) wins[index]++;
+  }
+
+  const entries = results
+    .flatMap((result, index) => (result ? [{ index, result, rank: 0, wins: wins[index] }] : []))
+    .sort((a, b) => b.result.score - a.result.score || b.wins - a.wins || a.index - b.index);
+
+  entries.forEach((entry, i) => {
+    const previous = entries[i - 1];
+    entry.rank = previous && previous.result.score === entry.result.score && previous.wins === entry.wins
+      ? previous.rank
+      : i + 1;
+  });
+  return entries;
+}
+
+// Bookmarkable form: /compare?site=a.com&site=b.com&strategy=desktop
+export function encodeComparison(urls: string[], strategy: Strategy): string {
+  const params = new URLSearchParams();
+  for (const url of urls) params.append('site', url);
+  if (strategy !== 'mobile') params.set('strategy', strategy);
+  return params.toString();
+}
+
+export function decodeComparison(params: URLSearchParams): { urls: string[]; strategy: Strategy } {
+  const urls = params.getAll('site').map((u) => u.trim()).filter(Boolean).slice(0, MAX_SITES);
+  while (urls.length < MIN_SITES) urls.push('');
+  return { urls, strategy: params.get('strategy') === 'desktop' ? 'desktop' : 'mobile' };
+}
@@ -0,0 +1,17 @@
+const DEFAULT_CACHE_TTL_SECONDS = 600;
+
+export interface PsiConfig {
+  apiKey?: string;
+  endpoint?: string; // overrides the public PSI URL, e.g. a local fixture server
+  cacheTtlMs: number;
+}
+
+// Server-only: reads the PageSpeed Insights settings from the environment.
+export function getPsiConfig(): PsiConfig {
+  const ttl = Number(process.env.PSI_CACHE_TTL_SECONDS);
+  return {
+    apiKey: process.env.PSI_API_KEY || undefined,
+    endpoint: process.env.PSI_API_URL || undefined,
+    cacheTtlMs: (Number.isFinite(ttl) && ttl >= 0 ? ttl : DEFAULT_CACHE_TTL_SECONDS) * 1000,
+  };
+}
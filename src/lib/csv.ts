@@ -0,0 +1,74 @@
+import type { AuditItem, HistoryEntry, ResourceItem } from '@/types';
+
+// CSV exports for spreadsheets. Column names are part of the format: downstream
+// sheets look columns up by header, so only ever append new columns.
+
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => string | number | null | undefined;
+}
+
+// RFC 4180: quote fields containing separators, quotes or line breaks, and double inner quotes
+function escapeField(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv<T>(columns: CsvColumn<T>[], rows: T[]): string {
+  const lines = [
+    columns.map((c) => escapeField(c.header)).join(','),
+    ...rows.map((row) => columns.map((c) => escapeField(c.value(row))).join(',')),
+  ];
+  return lines.join('\r\n') + '\r\n';
+}
+
+// Byte order mark so Excel opens the file as UTF-8
+export function csvBlob(csv: string): Blob {
+  return new Blob(['\ufeff', csv], { type: 'text/csv;charset=utf-8' });
+}
+
+export const HISTORY_COLUMNS: CsvColumn<HistoryEntry>[] = [
+  { header: 'id', value: (e) => e.id },
+  { header: 'url', value: (e) => e.url },
+  { header: 'strategy', value: (e) => e.strategy },
+  { header: 'tested_at', value: (e) => new Date(e.timestamp).toISOString() },
+  { header: 'score', value: (e) => e.score },
+  { header: 'grade', value: (e) => e.grade },
+  { header: 'lcp_ms', value: (e) => e.vitals.lcp },
+  { header: 'fid_ms', value: (e) => e.vitals.fid },
+  { header: 'cls', value: (e) => e.vitals.cls },
+  { header: 'ttfb_ms', value: (e) => e.vitals.ttfb },
+  { header: 'fcp_ms', value: (e) => e.vitals.fcp },
+  { header: 'inp_ms', value: (e) => e.vitals.inp },
+  { header: 'si_ms', value: (e) => e.vitals.si },
+  { header: 'tbt_ms', value: (e) => e.vitals.tbt },
+  { header: 'fetch_time_ms', value: (e) => e.fetchTime },
+];
+
+export const RESOURCE_COLUMNS: CsvColumn<ResourceItem>[] = [
+  { header: 'url', value: (r) => r.url },
+  { header: 'type', value: (r) => r.type },
+  { header: 'transfer_size_bytes', value: (r) => r.transferSize },
+  { header: 'start_time_ms', value: (r) => r.startTime },
+  { header: 'duration_ms', value: (r) => r.duration },
+  { header: 'resource_size_bytes', value: (r) => r.resourceSize },
+  { header: 'mime_type', value: (r) => r.mimeType },
+  { header: 'status_code', value: (r) => r.statusCode },
+  { header: 'protocol', value: (r) => r.protocol },
+  { header: 'priority', value: (r) => r.priority },
+  { header: 'cached', value: (r) => (r.cached === undefined ? null : String(r.cached)) },
+];
+
+export const AUDIT_COLUMNS: CsvColumn<AuditItem>[] = [
+  { header: 'id', value: (a) => a.id },
+  { header: 'category', value: (a) => a.category },
+  { header: 'title', value: (a) => a.title },
+  { header: 'impact', value: (a) => a.impact },
+  { header: 'score', value: (a) => a.score },
+  { header: 'display_value', value: (a) => a.displayValue },
+  { header: 'savings', value: (a) => a.savings },
+  { header: 'description', value: (a) => a.description },
+  { header: 'savings_ms', value: (a) => a.overallSavingsMs },
+  { header: 'savings_bytes', value: (a) => a.overallSavingsBytes },
+];
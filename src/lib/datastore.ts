@@ -0,0 +1,59 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Server-only JSON file store. Each document is one file under the data
+// directory; writes to the same document are serialised within the process.
+
+const queues = new Map<string, Promise<unknown>>();
+
+function dataDir(): string {
+  return process.env.SPEEDSTEIN_DATA_DIR || path.join(process.cwd(), '.data');
+}
+
+function filePath(name: string): string {
+  // Names often embed ids from request URLs; never let one escape the data directory
+  if (!/^[\w-]+(\/[\w-]+)*$/.test(name)) {
+    throw new Error(`Invalid document name "${name}"`);
+  }
+  return path.join(dataDir(), `${name}.json`);
+}
+
+function enqueue<T>(name: string, task: () => Promise<T>): Promise<T> {
+  const previous = queues.get(name) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  queues.set(name, next);
+  return next;
+}
+
+export async function readJson<T>(name: string, fallback: T): Promise<T> {
+  try {
+    const raw = await fs.readFile(filePath(name), 'utf8');
+    return JSON.parse(raw) as T;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return fallback;
+    throw err;
+  }
+}
+
+async function writeJson<T>(name: string, value: T): Promise<void> {
+  const target = filePath(name);
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  // Write-then-rename so a crash never leaves a half-written document
+  const tmp = `${target}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(value));
+  await fs.rename(tmp, target);
+}
+
+export function updateJson<T>(name: string, fallback: T, update: (current: T) => T): Promise<T> {
+  return enqueue(name, async () => {
+    const next = update(await readJson(name, fallback));
+    await writeJson(name, next);
+    return next;
+  });
+}
+
+export function removeJson(name: string): Promise<void> {
+  return enqueue(name, async () => {
+    await fs.rm(filePath(name), { force: true });
+  });
+}
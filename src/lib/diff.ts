@@ -0,0 +1,123 @@
+import type { AuditItem, CoreWebVitals, LighthouseCategory, ResourceItem, ScreenshotItem, SpeedTestResult } from '@/types';
+
+export interface MetricDiff {
+  key: 'score' | keyof CoreWebVitals;
+  label: string;
+  before: number | null;
+  after: number | null;
+  delta: number | null;
+  improved: boolean | null; // null when unchanged or not comparable
+}
+
+export interface ResourceChange {
+  url: string;
+  type: ResourceItem['type'];
+  before: number; // transfer size in bytes
+  after: number;
+  delta: number;
+}
+
+export interface ResultDiff {
+  metrics: MetricDiff[];
+  transfer: { before: number; after: number; delta: number };
+  requests: { before: number; after: number; delta: number };
+  added: ResourceItem[];
+  removed: ResourceItem[];
+  changed: ResourceChange[]; // largest change first
+  newlyFailing: AuditItem[];
+  fixed: AuditItem[];
+}
+
+const DIFF_METRICS: { key: MetricDiff['key']; label: string }[] = [
+  { key: 'score', label: 'Score' },
+  { key: 'lcp', label: 'Largest Contentful Paint' },
+  { key: 'fcp', label: 'First Contentful Paint' },
+  { key: 'cls', label: 'Cumulative Layout Shift' },
+  { key: 'tbt', label: 'Total Blocking Time' },
+  { key: 'si', label: 'Speed Index' },
+  { key: 'ttfb', label: 'Time to First Byte' },
+];
+
+function metricValue(result: SpeedTestResult, key: MetricDiff['key']): number | null {
+  return key === 'score' ? result.score : result.vitals[key];
+}
+
+function sumBytes(resources: ResourceItem[]): number {
+  return resources.reduce((sum, r) => sum + r.transferSize, 0);
+}
+
+// Resources are matched by URL; a URL requested several times is paired in request order
+function diffResources(before: ResourceItem[], after: ResourceItem[]) {
+  const pending = new Map<string, ResourceItem[]>();
+  for (const r of before) pending.set(r.url, [...(pending.get(r.url) ?? []), r]);
+
+  const added: ResourceItem[] = [];
+  const changed: ResourceChange[] = [];
+  for (const r of after) {
+    const match = pending.get(r.url)?.shift();
+    if (!match) {
+      added.push(r);
+    } else if (match.transferSize !== r.transferSize) {
+      changed.push({ url: r.url, type: r.type, before: match.transferSize, after: r.transferSize, delta: r.transferSize - match.transferSize });
+    }
+  }
+
+  const removed = [...pending.values()].flat();
+  changed.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+  return { added, removed, changed };
+}
+
+// Only failing audits are stored, so an audit missing from one run passed there.
+// Categories audited in just one of the runs are left out rather than reported as changes.
+function diffAudits(before: SpeedTestResult, after: SpeedTestResult) {
+  const shared = (Object.keys(before.categoryScores ?? {}) as LighthouseCategory[])
+    .filter((c) => after.categoryScores?.[c] !== undefined);
+  const inShared = (a: AuditItem) => shared.length === 0 || shared.includes(a.category ?? 'performance');
+
+  const beforeIds = new Set(before.audits.map((a) => a.id));
+  const afterIds = new Set(after.audits.map((a) => a.id));
+  return {
+    newlyFailing: after.audits.filter((a) => !beforeIds.has(a.id) && inShared(a)),
+    fixed: before.audits.filter((a) => !afterIds.has(a.id) && inShared(a)),
+  };
+}
+
+export function diffResults(before: SpeedTestResult, after: SpeedTestResult): ResultDiff {
+  const metrics = DIFF_METRICS.map(({ key, label }) => {
+    const b = metricValue(before, key);
+    const a = metricValue(after, key);
+    const delta = a !== null && b !== null ? a - b : null;
+    const improved = delta === null || delta === 0 ? null : key === 'score' ? delta > 0 : delta < 0;
+    return { key, label, before: b, after: a, delta, improved };
+  });
+
+  const transferBefore = sumBytes(before.resources);
+  const transferAfter = sumBytes(after.resources);
+
+  return {
+    metrics,
+    transfer: { before: transferBefore, after: transferAfter, delta: transferAfter - transferBefore },
+    requests: { before: before.resources.length, after: after.resources.length, delta: after.resources.length - before.resources.length },
+    ...diffResources(before.resources, after.resources),
+    ...diffAudits(before, after),
+  };
+}
+
+// Frames of both runs at the same moments, so filmstrips line up column by column.
+// Each column shows the last frame painted at or before its time.
+export function alignFilmstrips(
+  before: ScreenshotItem[],
+  after: ScreenshotItem[],
+  columns = 8,
+): { timing: number; before: ScreenshotItem | null; after: ScreenshotItem | null }[] {
+  const end = Math.max(before[before.length - 1]?.timing ?? 0, after[after.length - 1]?.timing ?? 0);
+  if (end === 0) return [];
+
+  const frameAt = (frames: ScreenshotItem[], timing: number) =>
+    frames.filter((f) => f.timing <= timing).pop() ?? null;
+
+  return Array.from({ length: columns }, (_, i) => {
+    const timing = Math.round((end * (i + 1)) / columns);
+    return { timing, before: frameAt(before, timing), after: frameAt(after, timing) };
+  });
+}
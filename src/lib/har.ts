@@ -0,0 +1,186 @@
+import type { ResourceItem, SpeedTestResult } from '@/types';
+
+// HAR 1.2 (http://www.softwareishard.com/blog/har-12-spec/), limited to the
+// fields Speedstein reads or writes. Underscore fields are the Chrome DevTools
+// extensions that other tools understand.
+
+export interface HarEntry {
+  pageref?: string;
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: unknown[];
+    headers: { name: string; value: string }[];
+    queryString: { name: string; value: string }[];
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: unknown[];
+    headers: { name: string; value: string }[];
+    content: { size: number; mimeType: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+    _transferSize?: number;
+  };
+  cache: Record<string, unknown>;
+  timings: { send: number; wait: number; receive: number; blocked?: number; dns?: number; connect?: number; ssl?: number };
+  _resourceType?: string;
+  _priority?: string;
+  _fromCache?: 'disk' | 'memory';
+}
+
+export interface Har {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    pages?: { startedDateTime: string; id: string; title: string; pageTimings: Record<string, number> }[];
+    entries: HarEntry[];
+  };
+}
+
+export class HarParseError extends Error {}
+
+const MIME_TYPES: Record<ResourceItem['type'], string> = {
+  script: 'application/javascript',
+  stylesheet: 'text/css',
+  image: 'image/*',
+  font: 'font/*',
+  document: 'text/html',
+  other: 'application/octet-stream',
+};
+
+const CHROME_TYPES: Record<ResourceItem['type'], string> = {
+  script: 'script',
+  stylesheet: 'stylesheet',
+  image: 'image',
+  font: 'font',
+  document: 'document',
+  other: 'other',
+};
+
+function queryString(url: string): { name: string; value: string }[] {
+  try {
+    return [...new URL(url).searchParams].map(([name, value]) => ({ name, value }));
+  } catch {
+    return [];
+  }
+}
+
+export function toHar(result: SpeedTestResult): Har {
+  const pageId = `page_${result.id}`;
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: 'Speedstein', version: '1.0' },
+      pages: [{
+        startedDateTime: new Date(result.timestamp).toISOString(),
+        id: pageId,
+        title: result.url,
+        pageTimings: { onContentLoad: -1, onLoad: -1 },
+      }],
+      entries: result.resources.map((resource) => ({
+        pageref: pageId,
+        startedDateTime: new Date(result.timestamp + resource.startTime).toISOString(),
+        time: resource.duration,
+        request: {
+          method: 'GET',
+          url: resource.url,
+          httpVersion: resource.protocol ?? '',
+          cookies: [],
+          headers: [],
+          queryString: queryString(resource.url),
+          headersSize: -1,
+          bodySize: 0,
+        },
+        // Lighthouse does not report headers; older results lack status and MIME type too
+        response: {
+          status: resource.statusCode ?? 200,
+          statusText: '',
+          httpVersion: resource.protocol ?? '',
+          cookies: [],
+          headers: [],
+          content: { size: resource.resourceSize ?? resource.transferSize, mimeType: resource.mimeType ?? MIME_TYPES[resource.type] },
+          redirectURL: '',
+          headersSize: -1,
+          bodySize: resource.transferSize,
+          _transferSize: resource.transferSize,
+        },
+        cache: {},
+        timings: { send: 0, wait: resource.duration, receive: 0 },
+        _resourceType: CHROME_TYPES[resource.type],
+        ...(resource.priority && { _priority: resource.priority }),
+        ...(resource.cached && { _fromCache: 'disk' as const }),
+      })),
+    },
+  };
+}
+
+function resourceType(entry: HarEntry): ResourceItem['type'] {
+  const chromeType = entry._resourceType?.toLowerCase();
+  if (chromeType === 'script' || chromeType === 'stylesheet' || chromeType === 'image' || chromeType === 'font' || chromeType === 'document') {
+    return chromeType;
+  }
+
+  const mime = entry.response?.content?.mimeType?.toLowerCase() ?? '';
+  if (mime.includes('javascript') || mime.includes('ecmascript')) return 'script';
+  if (mime.includes('css')) return 'stylesheet';
+  if (mime.startsWith('image/')) return 'image';
+  if (mime.startsWith('font/') || mime.includes('font')) return 'font';
+  if (mime.includes('html')) return 'document';
+  return 'other';
+}
+
+const PRIORITIES = ['VeryHigh', 'High', 'Medium', 'Low', 'VeryLow'];
+
+function transferSize(entry: HarEntry): number {
+  const { response } = entry;
+  if (entry._fromCache) return 0;
+  if (typeof response._transferSize === 'number' && response._transferSize > 0) return response._transferSize;
+  const size = Math.max(response.bodySize ?? 0, 0) + Math.max(response.headersSize ?? 0, 0);
+  return size > 0 ? size : Math.max(response.content?.size ?? 0, 0);
+}
+
+// Turns a HAR file into waterfall rows, with start times relative to the first request.
+export function parseHar(text: string): ResourceItem[] {
+  let har: Har;
+  try {
+    har = JSON.parse(text);
+  } catch {
+    throw new HarParseError('File is not valid JSON');
+  }
+
+  const entries = har?.log?.entries;
+  if (!Array.isArray(entries)) {
+    throw new HarParseError('File is not a HAR archive (missing log.entries)');
+  }
+
+  const valid = entries.filter((e) =>
+    typeof e?.request?.url === 'string' && !Number.isNaN(Date.parse(e.startedDateTime)) && e.response);
+  if (valid.length === 0) return [];
+
+  const origin = Math.min(...valid.map((e) => Date.parse(e.startedDateTime)));
+
+  return valid
+    .map((entry) => ({
+      url: entry.request.url,
+      type: resourceType(entry),
+      transferSize: Math.round(transferSize(entry)),
+      startTime: Math.round(Date.parse(entry.startedDateTime) - origin),
+      duration: Math.round(Math.max(entry.time || 0, 0)),
+      resourceSize: entry.response.content?.size >= 0 ? entry.response.content.size : undefined,
+      mimeType: entry.response.content?.mimeType || undefined,
+      statusCode: entry.response.status || undefined,
+      protocol: entry.response.httpVersion || undefined,
+      priority: PRIORITIES.includes(entry._priority ?? '') ? entry._priority as ResourceItem['priority'] : undefined,
+      cached: Boolean(entry._fromCache),
+    }))
+    .sort((a, b) => a.startTime - b.startTime);
+}
@@ -0,0 +1,50 @@
+import type { HistoryEntry, HistoryPage, HistoryQuery, SpeedTestResult } from '@/types';
+import { readJson, updateJson, removeJson } from './datastore';
+import { queryHistory, toHistoryEntry } from './storage';
+
+// Server-side history: a newest-first index of summaries plus one document
+// per full result, so listing never has to load screenshots.
+
+const INDEX_DOC = 'history/index';
+
+function resultDoc(id: string): string {
+  return `history/results/${id}`;
+}
+
+export async function listHistory(query: HistoryQuery = {}): Promise<HistoryPage> {
+  return queryHistory(await readJson<HistoryEntry[]>(INDEX_DOC, []), query);
+}
+
+// Summaries of the given results, in the order of `ids`; unknown IDs are skipped
+export async function getHistoryEntries(ids: string[]): Promise<HistoryEntry[]> {
+  const byId = new Map((await readJson<HistoryEntry[]>(INDEX_DOC, [])).map((e) => [e.id, e]));
+  return ids.flatMap((id) => byId.get(id) ?? []);
+}
+
+export function getHistoryResult(id: string): Promise<SpeedTestResult | null> {
+  return readJson<SpeedTestResult | null>(resultDoc(id), null);
+}
+
+export async function saveHistoryResult(result: SpeedTestResult): Promise<void> {
+  await updateJson<SpeedTestResult | null>(resultDoc(result.id), null, () => result);
+  await updateJson<HistoryEntry[]>(INDEX_DOC, [], (entries) => [
+    toHistoryEntry(result),
+    ...entries.filter((e) => e.id !== result.id),
+  ]);
+}
+
+export async function deleteHistoryResult(id: string): Promise<boolean> {
+  let found = false;
+  await updateJson<HistoryEntry[]>(INDEX_DOC, [], (entries) => {
+    found = entries.some((e) => e.id === id);
+    return entries.filter((e) => e.id !== id);
+  });
+  if (found) await removeJson(resultDoc(id));
+  return found;
+}
+
+export async function clearHistory(): Promise<void> {
+  const entries = await readJson<HistoryEntry[]>(INDEX_DOC, []);
+  await updateJson<HistoryEntry[]>(INDEX_DOC, [], () => []);
+  await Promise.all(entries.map((e) => removeJson(resultDoc(e.id))));
+}
@@ -0,0 +1,51 @@
+import type { HistoryEntry, HistoryPage, HistoryQuery, SpeedTestResult } from '@/types';
+import {
+  fetchHistory, fetchHistoryResult, saveHistoryResult, deleteHistoryResult, clearServerHistory,
+} from './client';
+import { localHistoryDriver } from './storage';
+
+export interface HistoryDriver {
+  name: 'server' | 'local';
+  list(query?: HistoryQuery): Promise<HistoryPage>;
+  get(id: string): Promise<SpeedTestResult | null>; // null when the full result was not kept
+  save(result: SpeedTestResult): Promise<void>;
+  remove(id: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// Full results in the server-side history database, shared by every browser.
+export const serverHistoryDriver: HistoryDriver = {
+  name: 'server',
+  list: fetchHistory,
+  async get(id) {
+    return fetchHistoryResult(id).catch(() => null);
+  },
+  save: saveHistoryResult,
+  remove: deleteHistoryResult,
+  clear: clearServerHistory,
+};
+
+const LIST_ALL_PAGE_SIZE = 500; // the server's maximum page size
+
+// Every entry matching the URL, not just one page
+export async function listAllHistory(history: HistoryDriver, url?: string): Promise<HistoryEntry[]> {
+  const all: HistoryEntry[] = [];
+  for (let page = 1; ; page++) {
+    const result = await history.list({ url, page, pageSize: LIST_ALL_PAGE_SIZE });
+    all.push(...result.entries);
+    if (result.entries.length === 0 || all.length >= result.total) return all;
+  }
+}
+
+let driver: Promise<HistoryDriver> | null = null;
+
+// Uses the server database when its API answers, otherwise localStorage.
+// The choice is made once per page load.
+export function getHistoryDriver(): Promise<HistoryDriver> {
+  if (!driver) {
+    driver = serverHistoryDriver.list({ pageSize: 1 })
+      .then(() => serverHistoryDriver)
+      .catch(() => localHistoryDriver);
+  }
+  return driver;
+}
@@ -0,0 +1,64 @@
+import type { SpeedTestResult } from '@/types';
+
+// Full results for the localStorage history driver. IndexedDB holds far more
+// than localStorage's ~5 MB, which a handful of screenshot filmstrips fill.
+
+const DB_NAME = 'speedstein';
+const DB_VERSION = 1;
+const RESULTS_STORE = 'results';
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(RESULTS_STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(RESULTS_STORE, mode).objectStore(RESULTS_STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export function isIndexedDbAvailable(): boolean {
+  return typeof window !== 'undefined' && 'indexedDB' in window;
+}
+
+export async function putResult(result: SpeedTestResult): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  await withStore('readwrite', (store) => store.put(result));
+}
+
+export async function getResult(id: string): Promise<SpeedTestResult | null> {
+  if (!isIndexedDbAvailable()) return null;
+  return (await withStore<SpeedTestResult | undefined>('readonly', (store) => store.get(id))) ?? null;
+}
+
+export async function deleteResult(id: string): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  await withStore('readwrite', (store) => store.delete(id));
+}
+
+export async function clearResults(): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  await withStore('readwrite', (store) => store.clear());
+}
+
+// Drops stored results whose history entries have been trimmed away.
+export async function pruneResults(keepIds: string[]): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  const keep = new Set(keepIds);
+  const ids = await withStore<IDBValidKey[]>('readonly', (store) => store.getAllKeys());
+  await Promise.all(ids.filter((id) => !keep.has(id as string)).map((id) => deleteResult(id as string)));
+}
@@ -0,0 +1,95 @@
+import type { HistoryPage, HistoryQuery, Monitor, SpeedTestResult, Strategy } from '@/types';
+import { normalizeUrl } from './api';
+import { readJson, updateJson, removeJson } from './datastore';
+import { getHistoryEntries, saveHistoryResult } from './history-db';
+import { queryHistory } from './storage';
+
+const MONITORS_DOC = 'monitors';
+
+export const MONITOR_INTERVALS = [15, 60, 360, 1440]; // minutes
+
+export interface MonitorInput {
+  url: string;
+  strategy: Strategy;
+  intervalMinutes: number;
+}
+
+// A monitor's run IDs, newest first; the results themselves live in the history
+function runsDoc(id: string): string {
+  return `monitor-runs/${id}`;
+}
+
+export function validateMonitorInput(input: Partial<MonitorInput>): MonitorInput {
+  let url: string;
+  try {
+    url = normalizeUrl(input.url ?? '');
+  } catch {
+    throw new Error('A valid URL is required');
+  }
+  if (input.strategy !== 'mobile' && input.strategy !== 'desktop') {
+    throw new Error('Strategy must be "mobile" or "desktop"');
+  }
+  if (!MONITOR_INTERVALS.includes(input.intervalMinutes as number)) {
+    throw new Error(`Interval must be one of ${MONITOR_INTERVALS.join(', ')} minutes`);
+  }
+  return { url, strategy: input.strategy, intervalMinutes: input.intervalMinutes as number };
+}
+
+export function listMonitors(): Promise<Monitor[]> {
+  return readJson<Monitor[]>(MONITORS_DOC, []);
+}
+
+export async function getMonitor(id: string): Promise<Monitor | undefined> {
+  return (await listMonitors()).find((m) => m.id === id);
+}
+
+export async function createMonitor(input: MonitorInput, now = Date.now()): Promise<Monitor> {
+  const monitor: Monitor = {
+    id: `mon_${now}_${Math.random().toString(36).slice(2, 8)}`,
+    ...input,
+    paused: false,
+    createdAt: now,
+    lastRunAt: null,
+    nextRunAt: now, // run on the next scheduler tick
+    lastScore: null,
+    lastError: null,
+  };
+  await updateJson<Monitor[]>(MONITORS_DOC, [], (monitors) => [...monitors, monitor]);
+  return monitor;
+}
+
+export async function updateMonitor(
+  id: string,
+  patch: Partial<Omit<Monitor, 'id' | 'createdAt'>>,
+): Promise<Monitor | undefined> {
+  let updated: Monitor | undefined;
+  await updateJson<Monitor[]>(MONITORS_DOC, [], (monitors) =>
+    monitors.map((m) => {
+      if (m.id !== id) return m;
+      updated = { ...m, ...patch };
+      return updated;
+    }),
+  );
+  return updated;
+}
+
+export async function deleteMonitor(id: string): Promise<boolean> {
+  let found = false;
+  await updateJson<Monitor[]>(MONITORS_DOC, [], (monitors) => {
+    found = monitors.some((m) => m.id === id);
+    return monitors.filter((m) => m.id !== id);
+  });
+  if (found) await removeJson(runsDoc(id));
+  return found;
+}
+
+// Newest first and paged like the history. Runs deleted from the history drop out.
+export async function getMonitorRuns(id: string, query: Omit<HistoryQuery, 'url' | 'strategy'> = {}): Promise<HistoryPage> {
+  return queryHistory(await getHistoryEntries(await readJson<string[]>(runsDoc(id), [])), query);
+}
+
+// The full result goes to the history, so a monitored run can be opened, diffed and exported
+export async function recordMonitorResult(id: string, result: SpeedTestResult): Promise<void> {
+  await saveHistoryResult(result);
+  await updateJson<string[]>(runsDoc(id), [], (runs) => [result.id, ...runs.filter((r) => r !== result.id)]);
+}
@@ -0,0 +1,50 @@
+import type { CoreWebVitals, MetricSpread, RunAggregate, SpeedTestResult } from '@/types';
+
+// Lighthouse scores of one page vary by several points between runs; the
+// median of an odd number of runs is far steadier than any single run.
+
+export const RUN_COUNTS = [1, 3, 5];
+
+const VITAL_KEYS: (keyof CoreWebVitals)[] = ['lcp', 'fid', 'cls', 'ttfb', 'fcp', 'inp', 'si', 'tbt'];
+
+export function spreadOf(values: number[]): MetricSpread {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+  return { min: Math.min(...values), max: Math.max(...values), stddev: Math.sqrt(variance) };
+}
+
+// The median run by score, carrying the spread of every metric across all runs
+export function aggregateRuns(results: SpeedTestResult[]): SpeedTestResult {
+  if (results.length === 0) throw new Error('No runs to aggregate');
+  if (results.length === 1) return results[0];
+
+  const byScore = [...results].sort((a, b) => a.score - b.score);
+  const medianRun = byScore[Math.floor((byScore.length - 1) / 2)];
+
+  const spread: RunAggregate['spread'] = { score: spreadOf(results.map((r) => r.score)) };
+  for (const key of VITAL_KEYS) {
+    const values = results.map((r) => r.vitals[key]).filter((v): v is number => v !== null);
+    if (values.length > 0) spread[key] = spreadOf(values);
+  }
+
+  return {
+    ...medianRun,
+    runs: { runIds: results.map((r) => r.id), scores: results.map((r) => r.score), spread },
+  };
+}
+
+// Runs one after another: parallel runs of the same page would compete for the
+// same PSI quota and skew each other's timings.
+export async function runMultiple(
+  run: () => Promise<SpeedTestResult>,
+  count: number,
+  onRun?: (result: SpeedTestResult, completed: number, count: number) => void,
+): Promise<SpeedTestResult> {
+  const results: SpeedTestResult[] = [];
+  for (let i = 0; i < count; i++) {
+    const result = await run();
+    results.push(result);
+    onRun?.(result, i + 1, count);
+  }
+  return aggregateRuns(results);
+}
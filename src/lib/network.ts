@@ -0,0 +1,86 @@
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+// Guards server-side requests to user-supplied URLs (sitemaps, webhooks) so they
+// cannot reach the server's own network. SPEEDSTEIN_ALLOW_PRIVATE_URLS=1 lifts
+// the restriction, e.g. for a self-hosted instance that tests intranet pages.
+
+export class BlockedUrlError extends Error {}
+
+const MAX_REDIRECTS = 5;
+
+const PRIVATE_RANGES = new BlockList();
+const IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, including cloud metadata endpoints
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved and broadcast
+];
+const IPV6_RANGES: [string, number][] = [
+  ['::', 128], // unspecified
+  ['::1', 128], // loopback
+  ['fc00::', 7], // unique local
+  ['fe80::', 10], // link-local
+  ['ff00::', 8], // multicast
+];
+for (const [network, prefix] of IPV4_RANGES) PRIVATE_RANGES.addSubnet(network, prefix, 'ipv4');
+for (const [network, prefix] of IPV6_RANGES) PRIVATE_RANGES.addSubnet(network, prefix, 'ipv6');
+
+export function privateUrlsAllowed(): boolean {
+  return process.env.SPEEDSTEIN_ALLOW_PRIVATE_URLS === '1';
+}
+
+// IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are checked as IPv4
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  return family !== 0 && PRIVATE_RANGES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+// Literal addresses and localhost names only; no DNS lookup
+export function isPrivateHostname(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, '').replace(/\.$/, '').toLowerCase();
+  return host === 'localhost' || host.endsWith('.localhost') || isPrivateAddress(host);
+}
+
+// Rejects a URL whose host is, or resolves to, a private address. A host that does
+// not resolve is let through: the request itself will fail with a clearer error.
+export async function assertPublicUrl(url: string, allowPrivate = privateUrlsAllowed()): Promise<void> {
+  if (allowPrivate) return;
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  if (isPrivateHostname(host)) throw new BlockedUrlError(`${host} is a private address`);
+  if (isIP(host)) return;
+
+  let addresses: { address: string }[];
+  try {
+    addresses = await lookup(host, { all: true });
+  } catch {
+    return;
+  }
+  if (addresses.some((a) => isPrivateAddress(a.address))) {
+    throw new BlockedUrlError(`${host} resolves to a private address`);
+  }
+}
+
+export interface PublicFetchOptions {
+  fetchFn?: typeof fetch;
+  allowPrivate?: boolean;
+}
+
+// fetch() that checks the URL and every redirect it follows with assertPublicUrl
+export async function fetchPublic(url: string, init: RequestInit = {}, options: PublicFetchOptions = {}): Promise<Response> {
+  const { fetchFn = fetch, allowPrivate = privateUrlsAllowed() } = options;
+  let current = url;
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicUrl(current, allowPrivate);
+    const response = await fetchFn(current, { ...init, redirect: 'manual' });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) return response;
+    if (redirects === MAX_REDIRECTS) throw new Error(`Too many redirects from ${url}`);
+    current = new URL(location, current).href;
+  }
+}
@@ -0,0 +1,301 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFImage, type PDFPage, type RGB } from 'pdf-lib';
+import type { CoreWebVitals, LighthouseCategory, SpeedTestResult } from '@/types';
+import {
+  formatBytes, formatCls, formatMs, getCategoryLabel, getResourceTypeColor, getScoreColorHex, getVitalRating, summarizeResources,
+} from './utils';
+
+// Server-side PDF report: A4 pages with a branded header and page numbers.
+// Sections flow top to bottom and break onto new pages as they fill up.
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 40;
+const HEADER_HEIGHT = 28;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const TEAL = hex('#14b8a6');
+const TEXT = hex('#171717');
+const MUTED = hex('#737373');
+const RULE = hex('#e5e5e5');
+
+const RATING_COLORS = { good: hex('#22c55e'), 'needs-improvement': hex('#eab308'), poor: hex('#ef4444') };
+
+const VITALS: { key: keyof CoreWebVitals; label: string }[] = [
+  { key: 'lcp', label: 'Largest Contentful Paint' },
+  { key: 'fcp', label: 'First Contentful Paint' },
+  { key: 'cls', label: 'Cumulative Layout Shift' },
+  { key: 'tbt', label: 'Total Blocking Time' },
+  { key: 'si', label: 'Speed Index' },
+  { key: 'ttfb', label: 'Time to First Byte' },
+];
+
+function hex(color: string): RGB {
+  const n = parseInt(color.slice(1), 16);
+  return rgb(((n >> 16) & 255) / 255, ((n >> 8) & 255) / 255, (n & 255) / 255);
+}
+
+// The host for headers and file names; falls back to the raw URL rather than throwing
+export function reportHost(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+}
+
+interface Writer {
+  page: PDFPage;
+  y: number;
+}
+
+export async function generatePdfReport(result: SpeedTestResult): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(`Speedstein report: ${result.url}`);
+  doc.setProducer('Speedstein');
+  doc.setCreationDate(new Date(result.timestamp));
+
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const charset = new Set(font.getCharacterSet());
+
+  // Standard fonts only cover WinAnsi; anything else would make pdf-lib throw
+  const clean = (text: string) =>
+    [...text.replace(/≤/g, '<=').replace(/≥/g, '>=').replace(/→/g, '->')]
+      .map((c) => (charset.has(c.codePointAt(0)!) ? c : '?'))
+      .join('');
+
+  const w: Writer = { page: doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]), y: 0 };
+
+  const drawHeader = () => {
+    w.page.drawRectangle({ x: 0, y: PAGE_HEIGHT - HEADER_HEIGHT, width: PAGE_WIDTH, height: HEADER_HEIGHT, color: TEAL });
+    w.page.drawText('Speedstein', { x: MARGIN, y: PAGE_HEIGHT - 19, size: 12, font: bold, color: rgb(1, 1, 1) });
+    const host = clean(reportHost(result.url));
+    const hostWidth = font.widthOfTextAtSize(host, 9);
+    w.page.drawText(host, { x: PAGE_WIDTH - MARGIN - hostWidth, y: PAGE_HEIGHT - 18, size: 9, font, color: rgb(1, 1, 1) });
+    w.y = PAGE_HEIGHT - HEADER_HEIGHT - 30;
+  };
+
+  const startPage = () => {
+    w.page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    drawHeader();
+  };
+
+  const ensureSpace = (height: number) => {
+    if (w.y - height < MARGIN + 20) startPage();
+  };
+
+  const text = (value: string, x: number, size: number, options: { bold?: boolean; color?: RGB; maxWidth?: number } = {}) => {
+    const f = options.bold ? bold : font;
+    let s = clean(value);
+    if (options.maxWidth) {
+      while (s.length > 1 && f.widthOfTextAtSize(s, size) > options.maxWidth) s = s.slice(0, -2) + '…';
+    }
+    w.page.drawText(s, { x, y: w.y, size, font: f, color: options.color ?? TEXT });
+  };
+
+  const rightText = (value: string, right: number, size: number, color: RGB = TEXT, f: PDFFont = font) => {
+    const s = clean(value);
+    w.page.drawText(s, { x: right - f.widthOfTextAtSize(s, size), y: w.y, size, font: f, color });
+  };
+
+  const wrap = (value: string, size: number, width: number): string[] => {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of clean(value).split(/\s+/)) {
+      const next = line ? `${line} ${word}` : word;
+      if (font.widthOfTextAtSize(next, size) > width && line) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = next;
+      }
+    }
+    if (line) lines.push(line);
+    return lines;
+  };
+
+  const heading = (title: string) => {
+    ensureSpace(40);
+    w.y -= 6;
+    text(title, MARGIN, 14, { bold: true });
+    w.y -= 8;
+    w.page.drawLine({ start: { x: MARGIN, y: w.y }, end: { x: PAGE_WIDTH - MARGIN, y: w.y }, thickness: 0.5, color: RULE });
+    w.y -= 16;
+  };
+
+  drawHeader();
+
+  // Summary
+  const scoreColor = hex(getScoreColorHex(result.score));
+  const ringY = w.y - 45;
+  w.page.drawCircle({ x: MARGIN + 45, y: ringY, size: 45, borderColor: scoreColor, borderWidth: 6 });
+  const scoreText = String(result.score);
+  w.page.drawText(scoreText, {
+    x: MARGIN + 45 - bold.widthOfTextAtSize(scoreText, 28) / 2, y: ringY - 4, size: 28, font: bold, color: scoreColor,
+  });
+  const gradeText = clean(result.grade);
+  w.page.drawText(gradeText, {
+    x: MARGIN + 45 - bold.widthOfTextAtSize(gradeText, 12) / 2, y: ringY - 22, size: 12, font: bold, color: MUTED,
+  });
+
+  const infoX = MARGIN + 115;
+  text('Performance Report', infoX, 18, { bold: true });
+  w.y -= 20;
+  text(result.url, infoX, 10, { color: TEAL, maxWidth: PAGE_WIDTH - MARGIN - infoX });
+  w.y -= 16;
+  text(`${result.strategy === 'desktop' ? 'Desktop' : 'Mobile'} · tested ${new Date(result.timestamp).toUTCString()}`, infoX, 9, { color: MUTED });
+  w.y -= 14;
+  const categories = Object.entries(result.categoryScores ?? {})
+    .filter(([category]) => category !== 'performance')
+    .map(([category, score]) => `${getCategoryLabel(category as LighthouseCategory)} ${score}`);
+  if (categories.length > 0) {
+    text(categories.join(' · '), infoX, 9, { color: MUTED });
+  }
+  w.y = ringY - 70;
+
+  heading('Core Web Vitals');
+  const colWidth = CONTENT_WIDTH / 3;
+  VITALS.forEach(({ key, label }, i) => {
+    const x = MARGIN + (i % 3) * colWidth;
+    if (i % 3 === 0 && i > 0) w.y -= 42;
+    const value = result.vitals[key];
+    const rating = getVitalRating(key, value);
+    text(label.toUpperCase(), x, 7, { color: MUTED });
+    w.y -= 16;
+    text(key === 'cls' ? formatCls(value) : formatMs(value), x, 16, { bold: true, color: RATING_COLORS[rating] });
+    w.y += 16;
+  });
+  w.y -= 52;
+
+  // Filmstrip
+  const frames = result.screenshots.slice(0, 8);
+  if (frames.length > 0) {
+    heading('Loading Timeline');
+    const gap = 6;
+    const frameW = (CONTENT_WIDTH - gap * (frames.length - 1)) / frames.length;
+    let frameH = 0;
+    const images: (PDFImage | null)[] = [];
+    for (const frame of frames) {
+      images.push(await embedDataUrl(doc, frame.data));
+    }
+    for (const image of images) {
+      if (image) frameH = Math.max(frameH, (image.height / image.width) * frameW);
+    }
+    frameH = Math.min(frameH || frameW * 1.6, 160);
+    ensureSpace(frameH + 20);
+    images.forEach((image, i) => {
+      const x = MARGIN + i * (frameW + gap);
+      w.page.drawRectangle({ x, y: w.y - frameH, width: frameW, height: frameH, borderColor: RULE, borderWidth: 0.5 });
+      if (image) {
+        const scale = Math.min(frameW / image.width, frameH / image.height);
+        w.page.drawImage(image, { x, y: w.y - image.height * scale, width: image.width * scale, height: image.height * scale });
+      }
+      w.page.drawText(clean(formatMs(frames[i].timing)), { x, y: w.y - frameH - 11, size: 7, font, color: MUTED });
+    });
+    w.y -= frameH + 30;
+  }
+
+  // Resource breakdown
+  if (result.resources.length > 0) {
+    heading('Resource Breakdown');
+    const cols = [MARGIN, MARGIN + 200, MARGIN + 300, MARGIN + 420];
+    text('TYPE', cols[0], 7, { color: MUTED });
+    rightText('REQUESTS', cols[1] + 60, 7, MUTED);
+    rightText('TRANSFER SIZE', cols[2] + 90, 7, MUTED);
+    rightText('SHARE', PAGE_WIDTH - MARGIN, 7, MUTED);
+    w.y -= 14;
+    for (const group of summarizeResources(result.resources)) {
+      ensureSpace(16);
+      w.page.drawCircle({ x: cols[0] + 3, y: w.y + 3, size: 3, color: hex(group.color) });
+      text(group.label, cols[0] + 12, 9);
+      rightText(String(group.count), cols[1] + 60, 9);
+      rightText(formatBytes(group.size), cols[2] + 90, 9);
+      rightText(`${group.percentage.toFixed(1)}%`, PAGE_WIDTH - MARGIN, 9);
+      w.y -= 15;
+    }
+    w.y -= 10;
+
+    // Full waterfall, one row per request
+    heading(`Waterfall (${result.resources.length} requests)`);
+    const maxTime = Math.max(...result.resources.map((r) => r.startTime + r.duration), 1);
+    const labelW = 170;
+    const sizeW = 50;
+    const barX = MARGIN + labelW + 6;
+    const barW = CONTENT_WIDTH - labelW - sizeW - 12;
+    const scale = () => {
+      text('0 ms', barX, 7, { color: MUTED });
+      rightText(formatMs(maxTime), barX + barW, 7, MUTED);
+      w.y -= 12;
+    };
+    scale();
+    for (const resource of result.resources) {
+      if (w.y - 10 < MARGIN + 20) {
+        startPage();
+        scale();
+      }
+      text(shortUrl(resource.url), MARGIN, 6.5, { color: MUTED, maxWidth: labelW });
+      const x = barX + (resource.startTime / maxTime) * barW;
+      const width = Math.max((resource.duration / maxTime) * barW, 1);
+      w.page.drawRectangle({ x, y: w.y - 1, width, height: 6, color: hex(getResourceTypeColor(resource.type)) });
+      rightText(formatBytes(resource.transferSize), PAGE_WIDTH - MARGIN, 6.5, MUTED);
+      w.y -= 10;
+    }
+    w.y -= 14;
+  }
+
+  // Recommendations
+  heading('Recommendations');
+  if (result.audits.length === 0) {
+    text('All checks passed. No optimization recommendations.', MARGIN, 10, { color: MUTED });
+    w.y -= 16;
+  }
+  for (const audit of result.audits) {
+    const lines = wrap(audit.description.replace(/\[([^\]]+)\]\([^)]+\)/g, '$1').replace(/`([^`]+)`/g, '$1'), 8, CONTENT_WIDTH - 14);
+    ensureSpace(30 + lines.length * 10);
+    const color = audit.impact === 'high' ? RATING_COLORS.poor : audit.impact === 'medium' ? RATING_COLORS['needs-improvement'] : MUTED;
+    w.page.drawRectangle({ x: MARGIN, y: w.y - 2, width: 3, height: 11, color });
+    text(audit.title, MARGIN + 10, 10, { bold: true, maxWidth: CONTENT_WIDTH - 120 });
+    rightText(`${audit.impact} impact`, PAGE_WIDTH - MARGIN, 8, color, bold);
+    w.y -= 13;
+    const summary = [audit.displayValue, audit.savings && `Est. savings ${audit.savings}`].filter(Boolean).join(' · ');
+    if (summary) {
+      text(summary, MARGIN + 10, 8, { color: TEAL });
+      w.y -= 11;
+    }
+    for (const line of lines) {
+      text(line, MARGIN + 10, 8, { color: MUTED });
+      w.y -= 10;
+    }
+    w.y -= 8;
+  }
+
+  // Footer with page numbers, once the page count is known
+  const pages = doc.getPages();
+  pages.forEach((page, i) => {
+    const label = `Page ${i + 1} of ${pages.length}`;
+    page.drawText(label, { x: PAGE_WIDTH - MARGIN - font.widthOfTextAtSize(label, 8), y: 22, size: 8, font, color: MUTED });
+    page.drawText('Generated by Speedstein, powered by Google Lighthouse', { x: MARGIN, y: 22, size: 8, font, color: MUTED });
+  });
+
+  return doc.save();
+}
+
+async function embedDataUrl(doc: PDFDocument, dataUrl: string): Promise<PDFImage | null> {
+  const match = /^data:image\/(jpeg|jpg|png);base64,(.+)$/.exec(dataUrl);
+  if (!match) return null;
+  const bytes = Buffer.from(match[2], 'base64');
+  try {
+    return match[1] === 'png' ? await doc.embedPng(bytes) : await doc.embedJpg(bytes);
+  } catch {
+    return null;
+  }
+}
+
+function shortUrl(url: string): string {
+  try {
+    const u = new URL(url);
+    return `${u.hostname}${u.pathname}`;
+  } catch {
+    return url;
+  }
+}
@@ -0,0 +1,144 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { startPsiStub, type PsiStub } from '@/test/psi-stub';
+import { createScheduler, type Clock } from './scheduler';
+import { createMonitor, getMonitor, getMonitorRuns, updateMonitor } from './monitors';
+import { getHistoryResult, listHistory } from './history-db';
+
+const MINUTE = 60_000;
+
+// Timers only fire when the test advances time
+function fakeClock(start = 0) {
+  let time = start;
+  let timers: { at: number; callback: () => void }[] = [];
+  const clock: Clock = {
+    now: () => time,
+    setTimeout(callback, ms) {
+      const timer = { at: time + ms, callback };
+      timers.push(timer);
+      return timer;
+    },
+    clearTimeout(handle) {
+      timers = timers.filter((t) => t !== handle);
+    },
+  };
+  return {
+    clock,
+    advance(ms: number) {
+      time += ms;
+      const due = timers.filter((t) => t.at <= time);
+      timers = timers.filter((t) => t.at > time);
+      due.forEach((t) => t.callback());
+    },
+    pending: () => timers.length,
+  };
+}
+
+// Monitors run the real runSpeedTest against a local PSI stub
+let psi: PsiStub;
+
+beforeEach(async () => {
+  process.env.SPEEDSTEIN_DATA_DIR = await mkdtemp(path.join(tmpdir(), 'speedstein-scheduler-'));
+  psi = await startPsiStub();
+  process.env.PSI_API_URL = psi.endpoint;
+});
+
+afterEach(async () => {
+  await psi.close();
+  delete process.env.PSI_API_URL;
+  await rm(process.env.SPEEDSTEIN_DATA_DIR!, { recursive: true, force: true });
+});
+
+test('runs due monitors, saves the full result and schedules the next run', async () => {
+  const { clock } = fakeClock(1_000);
+  psi.options.score = 72;
+  const monitor = await createMonitor({ url: 'https://example.com/', strategy: 'desktop', intervalMinutes: 15 }, 1_000);
+  const scheduler = createScheduler({ clock });
+
+  await scheduler.tick();
+
+  assert.deepEqual(psi.requests, [{ url: 'https://example.com/', strategy: 'desktop' }]);
+  const updated = await getMonitor(monitor.id);
+  assert.equal(updated?.lastRunAt, 1_000);
+  assert.equal(updated?.nextRunAt, 1_000 + 15 * MINUTE);
+  assert.equal(updated?.lastScore, 72);
+  assert.equal(updated?.lastError, null);
+
+  const runs = await getMonitorRuns(monitor.id);
+  assert.equal(runs.total, 1);
+  assert.equal((await listHistory()).total, 1);
+  const saved = await getHistoryResult(runs.entries[0].id);
+  assert.equal(saved?.score, 72);
+  assert.equal(saved?.resources.length, 2);
+  assert.equal(saved?.audits[0]?.id, 'unused-javascript');
+
+  // Not due again until the interval has passed
+  await scheduler.tick();
+  assert.equal(psi.requests.length, 1);
+});
+
+test('a tick that starts while another is running does nothing', async () => {
+  const { clock } = fakeClock();
+  await createMonitor({ url: 'https://example.com/', strategy: 'mobile', intervalMinutes: 15 }, 0);
+  let release!: () => void;
+  psi.options.hold = new Promise<void>((resolve) => (release = resolve));
+  const scheduler = createScheduler({ clock });
+
+  const first = scheduler.tick();
+  while (psi.requests.length === 0) await new Promise((resolve) => setTimeout(resolve, 5));
+  await scheduler.tick();
+  release();
+  await first;
+
+  assert.equal(psi.requests.length, 1);
+});
+
+test('an overdue monitor runs once, not once per missed interval', async () => {
+  const { clock, advance } = fakeClock();
+  const monitor = await createMonitor({ url: 'https://example.com/', strategy: 'mobile', intervalMinutes: 15 }, 0);
+  const scheduler = createScheduler({ clock });
+
+  // The server was down for three hours
+  advance(180 * MINUTE);
+  await scheduler.tick();
+  await scheduler.tick();
+
+  assert.equal(psi.requests.length, 1);
+  assert.equal((await getMonitor(monitor.id))?.nextRunAt, 195 * MINUTE);
+});
+
+test('skips paused monitors and records failures', async () => {
+  const { clock } = fakeClock(5_000);
+  psi.options.status = 429;
+  const paused = await createMonitor({ url: 'https://paused.example/', strategy: 'mobile', intervalMinutes: 60 }, 0);
+  await updateMonitor(paused.id, { paused: true });
+  const failing = await createMonitor({ url: 'https://down.example/', strategy: 'desktop', intervalMinutes: 60 }, 0);
+  const scheduler = createScheduler({ clock });
+
+  await scheduler.tick();
+
+  assert.deepEqual(psi.requests.map((r) => r.url), ['https://down.example/']);
+  const updated = await getMonitor(failing.id);
+  assert.equal(updated?.lastError, 'Quota exceeded');
+  assert.equal(updated?.nextRunAt, 5_000 + 60 * MINUTE);
+  assert.equal((await getMonitorRuns(failing.id)).total, 0);
+});
+
+test('start ticks on the clock until stopped', async () => {
+  const { clock, advance, pending } = fakeClock();
+  await createMonitor({ url: 'https://example.com/', strategy: 'mobile', intervalMinutes: 15 }, 0);
+  const scheduler = createScheduler({ clock, tickMs: 1_000 });
+
+  scheduler.start();
+  assert.equal(pending(), 1);
+  advance(1_000);
+  // Let the tick's request and file writes finish
+  while (pending() === 0) await new Promise((resolve) => setTimeout(resolve, 5));
+
+  assert.equal(psi.requests.length, 1);
+  scheduler.stop();
+  assert.equal(pending(), 0);
+});
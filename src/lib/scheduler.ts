@@ -0,0 +1,112 @@
+import type { Monitor, SpeedTestResult } from '@/types';
+import { runSpeedTest, type RunOptions } from './api';
+import { getPsiConfig } from './config';
+import { listMonitors, updateMonitor, recordMonitorResult } from './monitors';
+
+const DEFAULT_TICK_MS = 30_000;
+
+// Injectable time source so the scheduler can be driven by a fake clock in tests.
+export interface Clock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+export interface SchedulerOptions {
+  clock?: Clock;
+  tickMs?: number;
+  runTest?: (url: string, options: RunOptions) => Promise<SpeedTestResult>;
+  onResult?: (monitor: Monitor, result: SpeedTestResult) => void | Promise<void>;
+}
+
+export interface Scheduler {
+  start(): void;
+  stop(): void;
+  tick(): Promise<void>;
+}
+
+export function createScheduler(options: SchedulerOptions = {}): Scheduler {
+  const clock = options.clock ?? systemClock;
+  const tickMs = options.tickMs ?? DEFAULT_TICK_MS;
+  const runTest = options.runTest ?? runSpeedTest;
+  let handle: unknown = null;
+  let running = false;
+
+  async function runMonitor(monitor: Monitor) {
+    const { apiKey, endpoint } = getPsiConfig();
+    const startedAt = clock.now();
+    try {
+      const result = await runTest(monitor.url, { strategy: monitor.strategy, apiKey, endpoint });
+      await recordMonitorResult(monitor.id, result);
+      const updated = await updateMonitor(monitor.id, {
+        lastRunAt: startedAt,
+        nextRunAt: startedAt + monitor.intervalMinutes * 60_000,
+        lastScore: result.score,
+        lastError: null,
+      });
+      if (updated) await options.onResult?.(updated, result);
+    } catch (err) {
+      await updateMonitor(monitor.id, {
+        lastRunAt: startedAt,
+        nextRunAt: startedAt + monitor.intervalMinutes * 60_000,
+        lastError: err instanceof Error ? err.message : 'Analysis failed',
+      });
+    }
+  }
+
+  async function tick() {
+    // A slow PSI call must not let the next tick start the same monitors again
+    if (running) return;
+    running = true;
+    try {
+      const now = clock.now();
+      const due = (await listMonitors()).filter((m) => !m.paused && m.nextRunAt <= now);
+      for (const monitor of due) {
+        await runMonitor(monitor);
+      }
+    } finally {
+      running = false;
+    }
+  }
+
+  function schedule() {
+    handle = clock.setTimeout(async () => {
+      try {
+        await tick();
+      } catch (err) {
+        console.error('[speedstein] monitor tick failed', err);
+      }
+      if (handle !== null) schedule();
+    }, tickMs);
+  }
+
+  return {
+    start() {
+      if (handle !== null) return;
+      schedule();
+    },
+    stop() {
+      if (handle === null) return;
+      clock.clearTimeout(handle);
+      handle = null;
+    },
+    tick,
+  };
+}
+
+const globalForScheduler = globalThis as typeof globalThis & { speedsteinScheduler?: Scheduler };
+
+// Starts the process-wide scheduler once, even across dev-server reloads.
+export function startMonitorScheduler(options: SchedulerOptions = {}): Scheduler {
+  if (!globalForScheduler.speedsteinScheduler) {
+    globalForScheduler.speedsteinScheduler = createScheduler(options);
+    globalForScheduler.speedsteinScheduler.start();
+  }
+  return globalForScheduler.speedsteinScheduler;
+}
@@ -0,0 +1,147 @@
+import { test, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { gzipSync } from 'zlib';
+import { crawlSitemap, parseSitemap, selectPages, SitemapError } from './sitemap';
+import { BlockedUrlError } from './network';
+
+function urlset(...urls: string[]): string {
+  return `<?xml version="1.0"?><urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${
+    urls.map((u) => `<url><loc>${u}</loc></url>`).join('')
+  }</urlset>`;
+}
+
+function sitemapIndex(...sitemaps: string[]): string {
+  return `<sitemapindex>${sitemaps.map((s) => `<sitemap><loc>${s}</loc></sitemap>`).join('')}</sitemapindex>`;
+}
+
+// A local site on 127.0.0.1, so crawls go through fetch, redirects and real
+// streams; `routes` is swapped per test and anything else is a 404
+let site: Server;
+let origin = '';
+let routes: Record<string, (res: ServerResponse) => void> = {};
+let requested: string[] = [];
+
+function xml(body: string) {
+  return (res: ServerResponse) => res.writeHead(200, { 'Content-Type': 'application/xml' }).end(body);
+}
+
+// Sent in small writes so the client has to put the file back together
+function gzipped(body: Buffer | string) {
+  return (res: ServerResponse) => {
+    const bytes = gzipSync(body);
+    res.writeHead(200, { 'Content-Type': 'application/gzip' });
+    for (let i = 0; i < bytes.length; i += 1024) res.write(bytes.subarray(i, i + 1024));
+    res.end();
+  };
+}
+
+before(async () => {
+  site = createServer((req, res) => {
+    requested.push(req.url ?? '');
+    const route = routes[req.url ?? ''];
+    if (route) route(res);
+    else res.writeHead(404).end('Not found');
+  });
+  await new Promise<void>((resolve) => site.listen(0, '127.0.0.1', resolve));
+  origin = `http://127.0.0.1:${(site.address() as AddressInfo).port}`;
+});
+
+beforeEach(() => {
+  routes = {};
+  requested = [];
+});
+
+after(async () => {
+  site.closeAllConnections();
+  await new Promise((resolve) => site.close(resolve));
+});
+
+test('parses urlsets and indexes, with namespaces, CDATA and entities', () => {
+  assert.deepEqual(parseSitemap(urlset('https://example.com/a?x=1&amp;y=2')).urls, ['https://example.com/a?x=1&y=2']);
+  assert.deepEqual(
+    parseSitemap('<sm:urlset><sm:url><sm:loc><![CDATA[https://example.com/b]]></sm:loc></sm:url></sm:urlset>').urls,
+    ['https://example.com/b'],
+  );
+  assert.deepEqual(parseSitemap(sitemapIndex('https://example.com/s1.xml')).sitemaps, ['https://example.com/s1.xml']);
+  assert.throws(() => parseSitemap('<html></html>'), SitemapError);
+});
+
+test('follows redirects and sitemap indexes, including gzipped sitemaps, and de-duplicates pages', async () => {
+  routes = {
+    '/sitemap.xml': (res) => res.writeHead(301, { Location: '/sitemap_index.xml' }).end(),
+    '/sitemap_index.xml': xml(sitemapIndex(`${origin}/pages.xml`, '/posts.xml.gz', `${origin}/pages.xml`)),
+    '/pages.xml': xml(urlset(`${origin}/`, `${origin}/about`, `${origin}/about#team`)),
+    '/posts.xml.gz': gzipped(urlset(`${origin}/about`, `${origin}/post-1`)),
+  };
+
+  const crawl = await crawlSitemap(`${origin}/sitemap.xml`, { allowPrivate: true });
+
+  assert.deepEqual(crawl.urls, [`${origin}/`, `${origin}/about`, `${origin}/post-1`]);
+  assert.deepEqual(crawl.sitemaps, [`${origin}/sitemap.xml`, `${origin}/pages.xml`, `${origin}/posts.xml.gz`]);
+  assert.deepEqual(requested, ['/sitemap.xml', '/sitemap_index.xml', '/pages.xml', '/posts.xml.gz']);
+  assert.deepEqual(crawl.errors, []);
+});
+
+test('only the root sitemap has to load', async () => {
+  routes = {
+    '/sitemap.xml': xml(sitemapIndex(`${origin}/missing.xml`, `${origin}/ok.xml`)),
+    '/ok.xml': xml(urlset(`${origin}/ok`)),
+  };
+
+  const crawl = await crawlSitemap(`${origin}/sitemap.xml`, { allowPrivate: true });
+  assert.deepEqual(crawl.urls, [`${origin}/ok`]);
+  assert.deepEqual(crawl.errors, [{ sitemap: `${origin}/missing.xml`, message: `${origin}/missing.xml returned 404` }]);
+
+  await assert.rejects(crawlSitemap(`${origin}/nope.xml`, { allowPrivate: true }), SitemapError);
+});
+
+// No request may leave for these, so a stub fetch records any attempt
+test('refuses private hosts, including redirects to them', async () => {
+  const attempted: string[] = [];
+  const fetchFn = (async (input: string | URL | Request) => {
+    attempted.push(String(input));
+    return new Response(null, { status: 302, headers: { Location: 'http://169.254.169.254/latest/' } });
+  }) as typeof fetch;
+
+  for (const url of ['http://127.0.0.1/sitemap.xml', 'http://localhost:3000/sitemap.xml', 'http://[::1]/sitemap.xml', 'http://10.0.0.5/s.xml']) {
+    await assert.rejects(crawlSitemap(url, { fetchFn, allowPrivate: false }), BlockedUrlError);
+  }
+  assert.deepEqual(attempted, []);
+
+  await assert.rejects(crawlSitemap('https://93.184.216.34/sitemap.xml', { fetchFn, allowPrivate: false }), BlockedUrlError);
+  assert.deepEqual(attempted, ['https://93.184.216.34/sitemap.xml']);
+});
+
+test('caps the download and the decompressed size', async () => {
+  routes = {
+    // Claims 60 MB and never sends it; the crawl must not wait for the body
+    '/huge.xml': (res) => {
+      res.writeHead(200, { 'Content-Type': 'application/xml', 'Content-Length': String(60 * 1024 * 1024) });
+      res.write('<urlset>');
+    },
+    // No Content-Length, so only counting the stream catches it
+    '/endless.xml': (res) => {
+      const chunk = Buffer.alloc(1024 * 1024, ' ');
+      const write = () => {
+        while (!res.destroyed && res.write(chunk));
+      };
+      res.writeHead(200, { 'Content-Type': 'application/xml' });
+      res.on('drain', write);
+      write();
+    },
+    '/bomb.xml.gz': gzipped(Buffer.alloc(60 * 1024 * 1024, ' ')),
+  };
+
+  await assert.rejects(crawlSitemap(`${origin}/huge.xml`, { allowPrivate: true }), /larger than 50 MB/);
+  await assert.rejects(crawlSitemap(`${origin}/endless.xml`, { allowPrivate: true }), /larger than 50 MB/);
+  await assert.rejects(crawlSitemap(`${origin}/bomb.xml.gz`, { allowPrivate: true }), /Could not decompress/);
+});
+
+test('selects pages by prefix, first or spread', () => {
+  const urls = Array.from({ length: 10 }, (_, i) => `https://example.com/${i < 5 ? 'blog' : 'docs'}/${i}`);
+  assert.deepEqual(selectPages(urls, { pathPrefix: 'blog', maxCount: 2 }), [urls[0], urls[1]]);
+  assert.deepEqual(selectPages(urls, { maxCount: 2, sample: 'spread' }), [urls[0], urls[5]]);
+  assert.equal(selectPages(urls).length, 10);
+});
@@ -0,0 +1,162 @@
+import { gunzipSync } from 'zlib';
+import { normalizeUrl } from './api';
+import { BlockedUrlError, fetchPublic } from './network';
+
+// Sitemap discovery (https://www.sitemaps.org/protocol.html). Server-side only:
+// sitemaps are fetched directly, which browsers block across origins.
+
+export class SitemapError extends Error {}
+
+export interface CrawlOptions {
+  maxSitemaps?: number; // index files can nest; stop after this many documents
+  fetchFn?: typeof fetch;
+  allowPrivate?: boolean; // defaults to SPEEDSTEIN_ALLOW_PRIVATE_URLS; the CLI always allows
+}
+
+export interface CrawlResult {
+  urls: string[]; // page URLs in sitemap order, de-duplicated
+  sitemaps: string[]; // every sitemap document read
+  errors: { sitemap: string; message: string }[]; // nested sitemaps that could not be read
+}
+
+export interface SelectOptions {
+  pathPrefix?: string;
+  maxCount?: number;
+  sample?: 'first' | 'spread'; // spread picks evenly across the list instead of its head
+}
+
+const DEFAULT_MAX_SITEMAPS = 50;
+// The protocol caps a sitemap at 50 MB uncompressed; the download is held to the same
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function locs(xml: string, element: 'url' | 'sitemap'): string[] {
+  const blocks = xml.match(new RegExp(`<(?:\\w+:)?${element}[\\s>][\\s\\S]*?</(?:\\w+:)?${element}>`, 'g')) ?? [];
+  return blocks.flatMap((block) => {
+    const loc = /<(?:\w+:)?loc>\s*(?:<!\[CDATA\[)?([\s\S]*?)(?:\]\]>)?\s*<\/(?:\w+:)?loc>/.exec(block);
+    return loc ? [decodeEntities(loc[1].trim())] : [];
+  });
+}
+
+// Splits one sitemap document into page URLs and, for sitemap indexes, nested sitemaps.
+export function parseSitemap(xml: string): { urls: string[]; sitemaps: string[] } {
+  if (!/<(?:\w+:)?(urlset|sitemapindex)[\s>]/.test(xml)) {
+    throw new SitemapError('Not a sitemap: expected <urlset> or <sitemapindex>');
+  }
+  return { urls: locs(xml, 'url'), sitemaps: locs(xml, 'sitemap') };
+}
+
+async function readBody(response: Response, url: string): Promise<Buffer> {
+  const tooLarge = () => new SitemapError(`${url} is larger than ${MAX_SITEMAP_BYTES / 1024 / 1024} MB`);
+  if (Number(response.headers.get('content-length')) > MAX_SITEMAP_BYTES) throw tooLarge();
+  if (!response.body) return Buffer.alloc(0);
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > MAX_SITEMAP_BYTES) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+async function fetchSitemap(url: string, options: CrawlOptions): Promise<string> {
+  let response: Response;
+  try {
+    response = await fetchPublic(url, { headers: { Accept: 'application/xml, text/xml, */*' } }, options);
+  } catch (err) {
+    if (err instanceof BlockedUrlError) throw err;
+    throw new SitemapError(`Could not fetch ${url}: ${err instanceof Error ? err.message : err}`);
+  }
+  if (!response.ok) {
+    throw new SitemapError(`${url} returned ${response.status}`);
+  }
+  const bytes = await readBody(response, url);
+  // sitemap.xml.gz is served as a gzip file, not with Content-Encoding
+  if (bytes[0] !== 0x1f || bytes[1] !== 0x8b) return bytes.toString('utf8');
+  try {
+    return gunzipSync(bytes, { maxOutputLength: MAX_SITEMAP_BYTES }).toString('utf8');
+  } catch (err) {
+    throw new SitemapError(`Could not decompress ${url}: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+function dedupeKey(url: string): string | null {
+  try {
+    return normalizeUrl(url).replace(/#.*$/, '');
+  } catch {
+    return null;
+  }
+}
+
+// Reads a sitemap and every sitemap it links to, breadth first. Only the root
+// document is required to load; failures further down are reported in `errors`.
+// Private hosts throw BlockedUrlError at the root and are skipped further down.
+export async function crawlSitemap(sitemapUrl: string, options: CrawlOptions = {}): Promise<CrawlResult> {
+  const { maxSitemaps = DEFAULT_MAX_SITEMAPS } = options;
+  const root = normalizeUrl(sitemapUrl);
+  const queue = [root];
+  const seen = new Set(queue);
+  const pages = new Set<string>();
+  const result: CrawlResult = { urls: [], sitemaps: [], errors: [] };
+
+  while (queue.length > 0 && result.sitemaps.length < maxSitemaps) {
+    const current = queue.shift()!;
+    let parsed: { urls: string[]; sitemaps: string[] };
+    try {
+      parsed = parseSitemap(await fetchSitemap(current, options));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      if (current === root) throw err instanceof SitemapError || err instanceof BlockedUrlError ? err : new SitemapError(message);
+      result.errors.push({ sitemap: current, message });
+      continue;
+    }
+    result.sitemaps.push(current);
+
+    for (const url of parsed.urls) {
+      const key = dedupeKey(url);
+      if (key && !pages.has(key)) {
+        pages.add(key);
+        result.urls.push(key);
+      }
+    }
+    for (const nested of parsed.sitemaps) {
+      // Relative locs are not allowed by the protocol, but resolve them anyway
+      const absolute = new URL(nested, current).href;
+      if (!seen.has(absolute)) {
+        seen.add(absolute);
+        queue.push(absolute);
+      }
+    }
+  }
+
+  return result;
+}
+
+// Narrows crawled URLs down to the pages to test.
+export function selectPages(urls: string[], options: SelectOptions = {}): string[] {
+  const { pathPrefix, maxCount, sample = 'first' } = options;
+  const prefix = pathPrefix ? (pathPrefix.startsWith('/') ? pathPrefix : `/${pathPrefix}`) : null;
+  const matching = prefix ? urls.filter((url) => new URL(url).pathname.startsWith(prefix)) : urls;
+
+  if (!maxCount || maxCount >= matching.length) return matching;
+  if (sample === 'first') return matching.slice(0, maxCount);
+
+  const step = matching.length / maxCount;
+  return Array.from({ length: maxCount }, (_, i) => matching[Math.floor(i * step)]);
+}
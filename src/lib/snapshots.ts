@@ -0,0 +1,69 @@
+import { randomBytes, timingSafeEqual } from 'crypto';
+import type { Snapshot, SpeedTestResult } from '@/types';
+import { readJson, updateJson, removeJson } from './datastore';
+
+// Server-only store of shared results. The delete token is kept next to the
+// snapshot but never returned by getSnapshot.
+
+interface StoredSnapshot extends Snapshot {
+  deleteToken: string;
+}
+
+const MAX_EXPIRY_SECONDS = 365 * 24 * 60 * 60;
+
+function snapshotDoc(id: string): string {
+  return `snapshots/${id}`;
+}
+
+function randomId(bytes: number): string {
+  return randomBytes(bytes).toString('base64url');
+}
+
+export function isSnapshotId(id: string): boolean {
+  return /^[\w-]{8,32}$/.test(id);
+}
+
+export async function createSnapshot(
+  result: SpeedTestResult,
+  expiresInSeconds: number | null,
+  firstPartyDomains: string[] = [],
+  now = Date.now(),
+): Promise<StoredSnapshot> {
+  const ttl = expiresInSeconds === null ? null : Math.min(Math.max(expiresInSeconds, 60), MAX_EXPIRY_SECONDS);
+  const snapshot: StoredSnapshot = {
+    id: randomId(9),
+    result,
+    firstPartyDomains,
+    createdAt: now,
+    expiresAt: ttl === null ? null : now + ttl * 1000,
+    deleteToken: randomId(18),
+  };
+  await updateJson<StoredSnapshot | null>(snapshotDoc(snapshot.id), null, () => snapshot);
+  return snapshot;
+}
+
+export async function getSnapshot(id: string, now = Date.now()): Promise<Snapshot | null> {
+  const stored = await readJson<StoredSnapshot | null>(snapshotDoc(id), null);
+  if (!stored) return null;
+  if (stored.expiresAt !== null && stored.expiresAt <= now) {
+    await removeJson(snapshotDoc(id));
+    return null;
+  }
+  return {
+    id: stored.id,
+    result: stored.result,
+    firstPartyDomains: stored.firstPartyDomains ?? [],
+    createdAt: stored.createdAt,
+    expiresAt: stored.expiresAt,
+  };
+}
+
+export async function deleteSnapshot(id: string, token: string): Promise<'deleted' | 'not-found' | 'forbidden'> {
+  const stored = await readJson<StoredSnapshot | null>(snapshotDoc(id), null);
+  if (!stored) return 'not-found';
+  const expected = Buffer.from(stored.deleteToken);
+  const given = Buffer.from(token);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return 'forbidden';
+  await removeJson(snapshotDoc(id));
+  return 'deleted';
+}
@@ -1,14 +1,50 @@
-import type { HistoryEntry, SpeedTestResult } from '@/types';
+import type { Budget, HistoryEntry, HistoryPage, HistoryQuery, SharedSnapshot, SpeedTestResult, Strategy } from '@/types';
+import type { HistoryDriver } from './history';
+import { putResult, getResult, deleteResult, clearResults, pruneResults } from './idb';
 
 const STORAGE_KEY = 'speedstein_history';
 const MAX_ENTRIES = 50;
+const BUDGETS_KEY = 'speedstein_budgets';
+const SNAPSHOTS_KEY = 'speedstein_snapshots';
+const FIRST_PARTY_KEY = 'speedstein_first_party_domains';
+const DEFAULT_PAGE_SIZE = 20;
+
+export function toHistoryEntry(result: SpeedTestResult): HistoryEntry {
+  return {
+    id: result.id,
+    url: result.url,
+    strategy: result.strategy,
+    timestamp: result.timestamp,
+    score: result.score,
+    grade: result.grade,
+    vitals: result.vitals,
+    fetchTime: result.fetchTime,
+    ...(result.runs && { runs: result.runs }),
+  };
+}
+
+// Filters and pages a newest-first entry list; shared by every history driver.
+export function queryHistory(entries: HistoryEntry[], query: HistoryQuery = {}): HistoryPage {
+  const pageSize = Math.max(1, query.pageSize ?? DEFAULT_PAGE_SIZE);
+  const page = Math.max(1, query.page ?? 1);
+  const matching = entries.filter((e) =>
+    (!query.url || e.url === query.url) && (!query.strategy || e.strategy === query.strategy),
+  );
+  return {
+    entries: matching.slice((page - 1) * pageSize, page * pageSize),
+    total: matching.length,
+    page,
+    pageSize,
+  };
+}
 
 export function getHistory(): HistoryEntry[] {
   if (typeof window === 'undefined') return [];
   try {
     const raw = localStorage.getItem(STORAGE_KEY);
     if (!raw) return [];
-    return JSON.parse(raw) as HistoryEntry[];
+    // Entries saved before desktop runs existed were always mobile
+    return (JSON.parse(raw) as HistoryEntry[]).map((e) => ({ ...e, strategy: e.strategy ?? 'mobile' }));
   } catch {
     return [];
   }
@@ -16,18 +52,8 @@ export function getHistory(): HistoryEntry[] {
 
 export function saveToHistory(result: SpeedTestResult): void {
   if (typeof window === 'undefined') return;
-  const entry: HistoryEntry = {
-    id: result.id,
-    url: result.url,
-    timestamp: result.timestamp,
-    score: result.score,
-    grade: result.grade,
-    vitals: result.vitals,
-    fetchTime: result.fetchTime,
-  };
-
   const history = getHistory();
-  history.unshift(entry);
+  history.unshift(toHistoryEntry(result));
   if (history.length > MAX_ENTRIES) history.length = MAX_ENTRIES;
   localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
 }
@@ -43,6 +69,89 @@ export function deleteHistoryEntry(id: string): void {
   localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
 }
 
-export function getHistoryForUrl(url: string): HistoryEntry[] {
-  return getHistory().filter((e) => e.url === url);
+export function getHistoryForUrl(url: string, strategy?: Strategy): HistoryEntry[] {
+  return getHistory().filter((e) => e.url === url && (!strategy || e.strategy === strategy));
+}
+
+// Fallback driver: summaries in localStorage and full results in IndexedDB,
+// capped at MAX_ENTRIES, in this browser only.
+export const localHistoryDriver: HistoryDriver = {
+  name: 'local',
+  async list(query) {
+    return queryHistory(getHistory(), query);
+  },
+  get: getResult,
+  async save(result) {
+    saveToHistory(result);
+    await putResult(result);
+    await pruneResults(getHistory().map((e) => e.id));
+  },
+  async remove(id) {
+    deleteHistoryEntry(id);
+    await deleteResult(id);
+  },
+  async clear() {
+    clearHistory();
+    await clearResults();
+  },
+};
+
+export function getBudgets(): Budget[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const raw = localStorage.getItem(BUDGETS_KEY);
+    if (!raw) return [];
+    return JSON.parse(raw) as Budget[];
+  } catch {
+    return [];
+  }
+}
+
+export function saveBudget(budget: Budget): void {
+  if (typeof window === 'undefined') return;
+  const budgets = getBudgets().filter((b) => b.id !== budget.id);
+  budgets.push(budget);
+  localStorage.setItem(BUDGETS_KEY, JSON.stringify(budgets));
+}
+
+export function deleteBudget(id: string): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(BUDGETS_KEY, JSON.stringify(getBudgets().filter((b) => b.id !== id)));
+}
+
+export function getSharedSnapshots(): SharedSnapshot[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const raw = localStorage.getItem(SNAPSHOTS_KEY);
+    if (!raw) return [];
+    return JSON.parse(raw) as SharedSnapshot[];
+  } catch {
+    return [];
+  }
+}
+
+export function saveSharedSnapshot(snapshot: SharedSnapshot): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(SNAPSHOTS_KEY, JSON.stringify([snapshot, ...getSharedSnapshots()]));
+}
+
+export function removeSharedSnapshot(id: string): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(SNAPSHOTS_KEY, JSON.stringify(getSharedSnapshots().filter((s) => s.id !== id)));
+}
+
+// Extra domains, such as the site's CDN, to count as first party
+export function getFirstPartyDomains(): string[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const raw = localStorage.getItem(FIRST_PARTY_KEY);
+    return raw ? (JSON.parse(raw) as string[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveFirstPartyDomains(domains: string[]): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(FIRST_PARTY_KEY, JSON.stringify(domains));
 }
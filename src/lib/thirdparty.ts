@@ -0,0 +1,116 @@
+import type { ResourceItem, SpeedTestResult } from '@/types';
+
+// Splits a page's requests into first and third party and groups the third
+// party by vendor. Lighthouse names vendors (entities) where it knows them;
+// everything else is grouped by registrable domain.
+
+export interface PartyTotals {
+  requests: number;
+  transferSize: number;
+  // ms; only known for third-party scripts, as third-party-summary leaves out the page's own entity
+  blockingTime: number;
+  mainThreadTime: number;
+}
+
+export interface VendorSummary extends PartyTotals {
+  name: string;
+  domains: string[];
+}
+
+export interface ThirdPartyAnalysis {
+  firstParty: PartyTotals;
+  thirdParty: PartyTotals;
+  vendors: VendorSummary[]; // heaviest first
+}
+
+// Second-level labels under which sites register their own names (example.co.uk)
+const SHARED_SECOND_LEVEL = new Set(['co', 'com', 'net', 'org', 'gov', 'edu', 'ac', 'ne', 'or']);
+
+function hostname(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+export function registrableDomain(host: string): string {
+  const labels = host.split('.');
+  if (labels.length <= 2 || /^[\d.]+$/.test(host)) return host;
+  const keep = labels[labels.length - 1].length === 2 && SHARED_SECOND_LEVEL.has(labels[labels.length - 2]) ? 3 : 2;
+  return labels.slice(-keep).join('.');
+}
+
+// "cdn.example.net" matches that host and its subdomains; "*.example.net" only subdomains
+export function domainMatches(pattern: string, host: string): boolean {
+  const p = pattern.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/\/.*$/, '');
+  if (!p) return false;
+  if (p.startsWith('*.')) return host.endsWith(p.slice(1));
+  return host === p || host.endsWith(`.${p}`);
+}
+
+export function isFirstParty(url: string, pageUrl: string, firstPartyDomains: string[] = []): boolean {
+  const host = hostname(url);
+  const pageHost = hostname(pageUrl);
+  // data: and blob: URLs are created by the page itself
+  if (!host || !pageHost) return true;
+  return registrableDomain(host) === registrableDomain(pageHost) || firstPartyDomains.some((d) => domainMatches(d, host));
+}
+
+function emptyTotals(): PartyTotals {
+  return { requests: 0, transferSize: 0, blockingTime: 0, mainThreadTime: 0 };
+}
+
+export function analyzeThirdParties(result: SpeedTestResult, firstPartyDomains: string[] = []): ThirdPartyAnalysis {
+  // Per-URL CPU cost and vendor names from the third-party-summary audit
+  const cpu = new Map<string, { entity: string; blockingTime: number; mainThreadTime: number }>();
+  for (const entity of result.thirdParties ?? []) {
+    for (const item of entity.urls) {
+      cpu.set(item.url, { entity: entity.name, blockingTime: item.blockingTime, mainThreadTime: item.mainThreadTime });
+    }
+  }
+
+  // Lighthouse already knows a site's own CDNs as part of its entity
+  const pageEntity = result.resources.find((r) => r.type === 'document')?.entity;
+
+  const firstParty = emptyTotals();
+  const thirdParty = emptyTotals();
+  const vendors = new Map<string, VendorSummary>();
+
+  const add = (totals: PartyTotals, resource: ResourceItem, blockingTime: number, mainThreadTime: number) => {
+    totals.requests++;
+    totals.transferSize += resource.transferSize;
+    totals.blockingTime += blockingTime;
+    totals.mainThreadTime += mainThreadTime;
+  };
+
+  for (const resource of result.resources) {
+    const attributed = cpu.get(resource.url);
+    // A URL requested twice is only charged its CPU time once
+    cpu.delete(resource.url);
+    const blockingTime = attributed?.blockingTime ?? 0;
+    const mainThreadTime = attributed?.mainThreadTime ?? 0;
+
+    if ((pageEntity && resource.entity === pageEntity) || isFirstParty(resource.url, result.url, firstPartyDomains)) {
+      add(firstParty, resource, blockingTime, mainThreadTime);
+      continue;
+    }
+    add(thirdParty, resource, blockingTime, mainThreadTime);
+
+    const domain = registrableDomain(hostname(resource.url)!);
+    const name = resource.entity ?? attributed?.entity ?? domain;
+    let vendor = vendors.get(name);
+    if (!vendor) {
+      vendor = { name, domains: [], ...emptyTotals() };
+      vendors.set(name, vendor);
+    }
+    add(vendor, resource, blockingTime, mainThreadTime);
+    if (!vendor.domains.includes(domain)) vendor.domains.push(domain);
+  }
+
+  return {
+    firstParty,
+    thirdParty,
+    vendors: [...vendors.values()].sort((a, b) => b.blockingTime - a.blockingTime || b.transferSize - a.transferSize),
+  };
+}
@@ -0,0 +1,59 @@
+import type { CoreWebVitals, HistoryEntry } from '@/types';
+import { VITAL_THRESHOLDS } from './utils';
+
+export type TrendMetric = 'score' | keyof CoreWebVitals;
+
+export type TrendRange = '7d' | '30d' | '90d' | 'all';
+
+export interface TrendPoint {
+  id: string;
+  timestamp: number;
+  value: number;
+}
+
+export interface Regression {
+  metric: TrendMetric;
+  from: TrendPoint;
+  to: TrendPoint;
+  delta: number; // always positive: how much worse
+  severity: number; // delta relative to the metric's needs-improvement band
+}
+
+export const RANGE_DAYS: Record<TrendRange, number | null> = { '7d': 7, '30d': 30, '90d': 90, all: null };
+
+// [good, poor] bounds for a metric. Scores are better when higher, so their
+// bounds are lower limits; vitals reuse the getVitalRating thresholds.
+export function getMetricBands(metric: TrendMetric): [number, number] {
+  if (metric === 'score') return [90, 50];
+  return VITAL_THRESHOLDS[metric];
+}
+
+export function filterByRange(entries: HistoryEntry[], range: TrendRange, now: number): HistoryEntry[] {
+  const days = RANGE_DAYS[range];
+  if (days === null) return entries;
+  const since = now - days * 24 * 60 * 60 * 1000;
+  return entries.filter((e) => e.timestamp >= since);
+}
+
+// Oldest first, skipping runs where the metric was not measured.
+export function toPoints(entries: HistoryEntry[], metric: TrendMetric): TrendPoint[] {
+  return entries
+    .map((e) => ({ id: e.id, timestamp: e.timestamp, value: metric === 'score' ? e.score : e.vitals[metric] }))
+    .filter((p): p is TrendPoint => p.value !== null)
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+export function findRegressions(points: TrendPoint[], metric: TrendMetric): Regression[] {
+  const [good, poor] = getMetricBands(metric);
+  const band = Math.abs(good - poor);
+  const regressions: Regression[] = [];
+
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1];
+    const to = points[i];
+    const delta = metric === 'score' ? from.value - to.value : to.value - from.value;
+    if (delta > 0) regressions.push({ metric, from, to, delta, severity: delta / band });
+  }
+
+  return regressions.sort((a, b) => b.severity - a.severity);
+}
@@ -1,3 +1,5 @@
+import type { LighthouseCategory, ResourceItem } from '@/types';
+
 export function formatBytes(bytes: number): string {
   if (bytes === 0) return '0 B';
   const k = 1024;
@@ -51,6 +53,15 @@ export function getGradeBgColor(grade: string): string {
   }
 }
 
+export function getCategoryLabel(category: LighthouseCategory): string {
+  switch (category) {
+    case 'performance': return 'Performance';
+    case 'accessibility': return 'Accessibility';
+    case 'best-practices': return 'Best Practices';
+    case 'seo': return 'SEO';
+  }
+}
+
 export function getResourceTypeColor(type: string): string {
   switch (type) {
     case 'script': return '#eab308';
@@ -62,19 +73,66 @@ export function getResourceTypeColor(type: string): string {
   }
 }
 
+// [good, poor] upper bounds per vital; a value equal to a bound still earns that rating
+export const VITAL_THRESHOLDS: Record<string, [number, number]> = {
+  lcp: [2500, 4000],
+  fid: [100, 300],
+  cls: [0.1, 0.25],
+  ttfb: [800, 1800],
+  fcp: [1800, 3000],
+  inp: [200, 500],
+  si: [3400, 5800],
+  tbt: [200, 600],
+};
+
+export function getResourceTypeLabel(type: string): string {
+  switch (type) {
+    case 'script': return 'JavaScript';
+    case 'stylesheet': return 'CSS';
+    case 'image': return 'Images';
+    case 'font': return 'Fonts';
+    case 'document': return 'HTML';
+    case 'other': return 'Other';
+    default: return type;
+  }
+}
+
+export interface ResourceGroup {
+  type: ResourceItem['type'];
+  label: string;
+  count: number;
+  size: number;
+  percentage: number;
+  color: string;
+}
+
+// Transfer size per resource type, largest first.
+export function summarizeResources(resources: ResourceItem[]): ResourceGroup[] {
+  const groups: Partial<Record<ResourceItem['type'], { count: number; size: number }>> = {};
+  let totalSize = 0;
+
+  for (const r of resources) {
+    const group = groups[r.type] ?? (groups[r.type] = { count: 0, size: 0 });
+    group.count += 1;
+    group.size += r.transferSize;
+    totalSize += r.transferSize;
+  }
+
+  return (Object.entries(groups) as [ResourceItem['type'], { count: number; size: number }][])
+    .map(([type, data]) => ({
+      type,
+      label: getResourceTypeLabel(type),
+      count: data.count,
+      size: data.size,
+      percentage: totalSize > 0 ? (data.size / totalSize) * 100 : 0,
+      color: getResourceTypeColor(type),
+    }))
+    .sort((a, b) => b.size - a.size);
+}
+
 export function getVitalRating(metric: string, value: number | null): 'good' | 'needs-improvement' | 'poor' {
   if (value === null) return 'needs-improvement';
-  const thresholds: Record<string, [number, number]> = {
-    lcp: [2500, 4000],
-    fid: [100, 300],
-    cls: [0.1, 0.25],
-    ttfb: [800, 1800],
-    fcp: [1800, 3000],
-    inp: [200, 500],
-    si: [3400, 5800],
-    tbt: [200, 600],
-  };
-  const [good, poor] = thresholds[metric] || [0, 0];
+  const [good, poor] = VITAL_THRESHOLDS[metric] || [0, 0];
   if (value <= good) return 'good';
   if (value <= poor) return 'needs-improvement';
   return 'poor';
@@ -99,3 +157,13 @@ export function timeAgo(timestamp: number): string {
   if (days < 30) return `${days}d ago`;
   return new Date(timestamp).toLocaleDateString();
 }
+
+// Saves a generated file through a temporary object URL
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { HistoryEntry, SpeedTestResult } from '@/types';
+import { validateHistoryEntry, validateSpeedTestResult } from './validate';
+
+const entry: HistoryEntry = {
+  id: 'test_1',
+  url: 'https://example.com/',
+  strategy: 'mobile',
+  timestamp: 1_000,
+  score: 85,
+  grade: 'B',
+  vitals: { lcp: 2000, fid: null, cls: 0.05, ttfb: 300, fcp: 1200, inp: null, si: 2500, tbt: 150 },
+  fetchTime: 10,
+};
+
+test('accepts a complete history entry', () => {
+  assert.equal(validateHistoryEntry(entry), entry);
+  const runs = { runIds: ['test_1', 'test_2', 'test_3'], scores: [80, 85, 90], spread: { score: { min: 80, max: 90, stddev: 4.1 } } };
+  assert.doesNotThrow(() => validateHistoryEntry({ ...entry, runs }));
+});
+
+test('rejects entries with a missing or malformed field', () => {
+  const { vitals, ...noVitals } = entry;
+  const cases: [unknown, RegExp][] = [
+    [null, /SpeedTestResult/],
+    [{ ...entry, id: '../etc' }, /id must/],
+    [{ ...entry, url: 'javascript:alert(1)' }, /http or https/],
+    [{ ...entry, timestamp: undefined }, /timestamp/],
+    [{ ...entry, grade: 'Z' }, /grade/],
+    [noVitals, /vitals must be an object/],
+    [{ ...entry, vitals: { ...vitals, lcp: '2s' } }, /vitals\.lcp/],
+    [{ ...entry, fetchTime: -1 }, /fetchTime/],
+    [{ ...entry, runs: { runIds: [], scores: [], spread: {} } }, /runs\.scores/],
+    [{ ...entry, runs: { runIds: ['test_1'], scores: [80, 90], spread: {} } }, /runs\.runIds/],
+  ];
+  for (const [input, message] of cases) assert.throws(() => validateHistoryEntry(input), message);
+});
+
+const result: SpeedTestResult = {
+  ...entry,
+  categoryScores: { performance: 85 },
+  fieldData: { page: null, origin: { overallCategory: 'FAST', metrics: { inp: { p75: 120, category: 'FAST', distribution: { fast: 0.9, average: 0.07, slow: 0.03 } } } } },
+  resources: [{ url: 'https://example.com/', type: 'document', transferSize: 12_000, startTime: 0, duration: 200 }],
+  audits: [{
+    id: 'unused-javascript', title: 'Reduce unused JavaScript', description: '', score: 0.3, impact: 'medium', category: 'performance',
+    details: { headings: [{ key: 'url', label: 'URL', valueType: 'url' }], items: [{ url: 'https://example.com/app.js' }], totalItems: 1 },
+  }],
+  screenshots: [{ timing: 300, timestamp: 1_300, data: 'aGk=' }],
+  mainThread: { totalMs: 900, categories: [{ category: 'scriptEvaluation', duration: 600 }] },
+};
+
+test('accepts a complete result, with or without the optional breakdowns', () => {
+  assert.equal(validateSpeedTestResult(result), result);
+  const { mainThread, ...older } = result;
+  assert.ok(mainThread);
+  assert.doesNotThrow(() => validateSpeedTestResult(older));
+});
+
+test('rejects results with a missing or malformed field', () => {
+  const { fieldData, ...noFieldData } = result;
+  const cases: [unknown, RegExp][] = [
+    [entry, /categoryScores/],
+    [noFieldData, /fieldData/],
+    [{ ...result, fieldData: { ...fieldData, page: { metrics: { lcp: { p75: 'slow' } } } } }, /fieldData/],
+    [{ ...result, resources: [{ ...result.resources[0], type: 'video' }] }, /resources/],
+    [{ ...result, audits: [{ ...result.audits[0], impact: 'huge' }] }, /audits/],
+    [{ ...result, audits: [{ ...result.audits[0], details: { headings: 'url', items: [] } }] }, /audits/],
+    [{ ...result, screenshots: [{ timing: 300 }] }, /screenshots/],
+    [{ ...result, mainThread: { totalMs: 900 } }, /mainThread/],
+    [{ ...result, criticalPath: { chains: [{ url: 'https://example.com/' }] } }, /criticalPath/],
+  ];
+  for (const [input, message] of cases) assert.throws(() => validateSpeedTestResult(input), message);
+});
@@ -0,0 +1,134 @@
+import type { CoreWebVitals, HistoryEntry, RunAggregate, SpeedTestResult } from '@/types';
+
+// Shape checks for results that arrive over the API. Pages read these fields
+// without guarding them, so a hand-made body must be turned away up front.
+
+const VITAL_KEYS: (keyof CoreWebVitals)[] = ['lcp', 'fid', 'cls', 'ttfb', 'fcp', 'inp', 'si', 'tbt'];
+const GRADES = ['A', 'B', 'C', 'D', 'F'];
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+export const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Every field of a HistoryEntry; a full SpeedTestResult passes too
+export function validateHistoryEntry(input: unknown): HistoryEntry {
+  if (!isObject(input)) throw new Error('Body must be a SpeedTestResult');
+  const entry = input as unknown as HistoryEntry;
+
+  if (typeof entry.id !== 'string' || !/^[\w-]+$/.test(entry.id)) throw new Error('id must only use letters, digits, _ and -');
+  if (typeof entry.url !== 'string') throw new Error('url must be a string');
+  let url: URL;
+  try {
+    url = new URL(entry.url);
+  } catch {
+    throw new Error('url must be a valid URL');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error('url must use http or https');
+  if (entry.strategy !== 'mobile' && entry.strategy !== 'desktop') throw new Error('strategy must be "mobile" or "desktop"');
+  if (!isNumber(entry.timestamp)) throw new Error('timestamp must be a number');
+  if (!isNumber(entry.score) || entry.score < 0 || entry.score > 100) throw new Error('score must be between 0 and 100');
+  if (!GRADES.includes(entry.grade)) throw new Error(`grade must be one of ${GRADES.join(', ')}`);
+  if (!isNumber(entry.fetchTime) || entry.fetchTime < 0) throw new Error('fetchTime must be a number of milliseconds');
+
+  if (!isObject(entry.vitals)) throw new Error('vitals must be an object');
+  for (const key of VITAL_KEYS) {
+    const value = entry.vitals[key];
+    if (value !== null && !isNumber(value)) throw new Error(`vitals.${key} must be a number or null`);
+  }
+
+  if (entry.runs !== undefined) {
+    const { runIds, scores, spread } = entry.runs as Partial<RunAggregate>;
+    if (!Array.isArray(scores) || scores.length === 0 || !scores.every(isNumber)) {
+      throw new Error('runs.scores must be a list of scores');
+    }
+    if (!Array.isArray(runIds) || runIds.length !== scores.length || !runIds.every((id) => typeof id === 'string')) {
+      throw new Error('runs.runIds must list one result ID per score');
+    }
+    if (!isObject(spread) || !Object.values(spread).every((s) => isObject(s) && isNumber(s.min) && isNumber(s.max) && isNumber(s.stddev))) {
+      throw new Error('runs.spread must map metrics to { min, max, stddev }');
+    }
+  }
+
+  return entry;
+}
+
+const RESOURCE_TYPES = ['script', 'stylesheet', 'image', 'font', 'document', 'other'];
+const IMPACTS = ['high', 'medium', 'low'];
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+
+function listOf(value: unknown, check: (item: Record<string, unknown>) => boolean): boolean {
+  return Array.isArray(value) && value.every((item) => isObject(item) && check(item));
+}
+
+function hasNumbers(item: Record<string, unknown>, ...keys: string[]): boolean {
+  return keys.every((key) => isNumber(item[key]));
+}
+
+function isFieldExperience(value: unknown): boolean {
+  if (value === null) return true;
+  if (!isObject(value) || !isObject(value.metrics)) return false;
+  return Object.values(value.metrics).every((m) =>
+    isObject(m) && isNumber(m.p75) && typeof m.category === 'string' &&
+    isObject(m.distribution) && hasNumbers(m.distribution, 'fast', 'average', 'slow'));
+}
+
+function isChainNode(node: Record<string, unknown>): boolean {
+  return typeof node.url === 'string' && hasNumbers(node, 'startTime', 'endTime', 'transferSize') && listOf(node.children, isChainNode);
+}
+
+// Everything the results dashboard, report page and PDF read, for results that
+// are stored or rendered for other people (snapshots, PDF reports)
+export function validateSpeedTestResult(input: unknown): SpeedTestResult {
+  const result = validateHistoryEntry(input) as unknown as SpeedTestResult;
+
+  if (!isObject(result.categoryScores) || !Object.values(result.categoryScores).every(isNumber)) {
+    throw new Error('categoryScores must map categories to numbers');
+  }
+  if (!isObject(result.fieldData) || !isFieldExperience(result.fieldData.page) || !isFieldExperience(result.fieldData.origin)) {
+    throw new Error('fieldData must hold page and origin field data, or null');
+  }
+  if (!listOf(result.resources, (r) =>
+    typeof r.url === 'string' && RESOURCE_TYPES.includes(r.type as string) && hasNumbers(r, 'transferSize', 'startTime', 'duration'))) {
+    throw new Error('resources must be a list of { url, type, transferSize, startTime, duration }');
+  }
+  if (!listOf(result.audits, (a) =>
+    typeof a.id === 'string' && typeof a.title === 'string' && typeof a.description === 'string' &&
+    IMPACTS.includes(a.impact as string) && (a.score === null || isNumber(a.score)) && typeof a.category === 'string' &&
+    isOptionalString(a.displayValue) && isOptionalString(a.savings) &&
+    (a.details === undefined || (isObject(a.details) && isNumber(a.details.totalItems) &&
+      listOf(a.details.headings, (h) => typeof h.key === 'string' && typeof h.label === 'string') &&
+      listOf(a.details.items, () => true))))) {
+    throw new Error('audits must be a list of { id, title, description, impact, score, category }');
+  }
+  if (!listOf(result.screenshots, (s) => isNumber(s.timing) && typeof s.data === 'string')) {
+    throw new Error('screenshots must be a list of { timing, data }');
+  }
+  if (!isOptionalString(result.finalScreenshot)) throw new Error('finalScreenshot must be a string');
+
+  // Kept since later versions; missing is fine, malformed is not
+  if (result.thirdParties !== undefined && !listOf(result.thirdParties, (t) =>
+    typeof t.name === 'string' && hasNumbers(t, 'transferSize', 'blockingTime', 'mainThreadTime') &&
+    listOf(t.urls, (u) => typeof u.url === 'string' && hasNumbers(u, 'transferSize', 'blockingTime', 'mainThreadTime')))) {
+    throw new Error('thirdParties must be a list of vendors');
+  }
+  const path = result.criticalPath as unknown;
+  if (path !== undefined && !(isObject(path) && listOf(path.chains, isChainNode) &&
+    (path.longestChain === null || (isObject(path.longestChain) && hasNumbers(path.longestChain, 'duration', 'length', 'transferSize'))) &&
+    listOf(path.renderBlocking, (r) => typeof r.url === 'string' && hasNumbers(r, 'transferSize', 'wastedMs')) &&
+    isNumber(path.renderBlockingSavingsMs))) {
+    throw new Error('criticalPath must hold chains, longestChain and renderBlocking');
+  }
+  const mainThread = result.mainThread as unknown;
+  if (mainThread !== undefined && !(isObject(mainThread) && isNumber(mainThread.totalMs) &&
+    listOf(mainThread.categories, (c) => typeof c.category === 'string' && isNumber(c.duration)))) {
+    throw new Error('mainThread must hold totalMs and categories');
+  }
+  const bootup = result.bootup as unknown;
+  if (bootup !== undefined && !(isObject(bootup) && isNumber(bootup.totalMs) &&
+    listOf(bootup.scripts, (s) => typeof s.url === 'string' && hasNumbers(s, 'total', 'scripting', 'parseCompile')))) {
+    throw new Error('bootup must hold totalMs and scripts');
+  }
+
+  return result;
+}
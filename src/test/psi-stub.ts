@@ -0,0 +1,87 @@
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+
+// A local stand-in for the PageSpeed Insights API, for tests that run the real
+// request and extraction path. Point RunOptions.endpoint, PSI_API_URL or the
+// CLI's --endpoint at `endpoint`.
+
+export interface PsiStubOptions {
+  score?: number; // 0-100
+  lcp?: number; // ms
+  status?: number; // anything but 200 answers with a PSI-style error
+  hold?: Promise<void>; // responses wait for this, to keep a test run in flight
+}
+
+export interface PsiStub {
+  endpoint: string;
+  options: PsiStubOptions; // read on every request, so tests can change it between runs
+  requests: { url: string; strategy: string }[];
+  close(): Promise<void>;
+}
+
+function psiResponse(url: string, { score = 90, lcp = 1800 }: PsiStubOptions) {
+  const script = new URL('/app.js', url).href;
+  return {
+    loadingExperience: { metrics: {} },
+    lighthouseResult: {
+      categories: { performance: { score: score / 100, auditRefs: [{ id: 'unused-javascript', weight: 0 }] } },
+      audits: {
+        'largest-contentful-paint': { numericValue: lcp },
+        'first-contentful-paint': { numericValue: 1200 },
+        'cumulative-layout-shift': { numericValue: 0.02 },
+        'total-blocking-time': { numericValue: 150 },
+        'speed-index': { numericValue: 2000 },
+        'server-response-time': { numericValue: 120 },
+        'network-requests': {
+          details: {
+            items: [
+              { url, resourceType: 'Document', transferSize: 12_000, networkRequestTime: 0, networkEndTime: 200, statusCode: 200 },
+              { url: script, resourceType: 'Script', transferSize: 150_000, networkRequestTime: 220, networkEndTime: 600, statusCode: 200 },
+            ],
+          },
+        },
+        'unused-javascript': {
+          score: 0.3,
+          title: 'Reduce unused JavaScript',
+          description: 'Remove code that is never run.',
+          displayValue: 'Est savings of 60 KiB',
+          details: {
+            type: 'opportunity',
+            overallSavingsMs: 300,
+            overallSavingsBytes: 60_000,
+            headings: [{ key: 'url', valueType: 'url', label: 'URL' }, { key: 'wastedBytes', valueType: 'bytes', label: 'Wasted' }],
+            items: [{ url: script, wastedBytes: 60_000 }],
+          },
+        },
+      },
+    },
+  };
+}
+
+export async function startPsiStub(options: PsiStubOptions = {}): Promise<PsiStub> {
+  const server: Server = createServer(async (req, res) => {
+    const params = new URL(req.url ?? '/', 'http://localhost').searchParams;
+    const url = params.get('url') ?? '';
+    stub.requests.push({ url, strategy: params.get('strategy') ?? '' });
+    await stub.options.hold;
+
+    const status = stub.options.status ?? 200;
+    const body = status === 200 ? psiResponse(url, stub.options) : { error: { code: status, message: 'Quota exceeded' } };
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  const stub: PsiStub = {
+    endpoint: `http://127.0.0.1:${port}/pagespeedonline/v5/runPagespeed`,
+    options,
+    requests: [],
+    close: () => new Promise<void>((resolve) => {
+      server.close(() => resolve());
+      // fetch keeps connections alive, which would hold close() open
+      server.closeAllConnections();
+    }),
+  };
+  return stub;
+}
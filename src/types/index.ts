@@ -1,3 +1,9 @@
+export type Strategy = 'mobile' | 'desktop';
+
+export type StrategySelection = Strategy | 'both';
+
+export type LighthouseCategory = 'performance' | 'accessibility' | 'best-practices' | 'seo';
+
 export interface CoreWebVitals {
   lcp: number | null; // Largest Contentful Paint (ms)
   fid: number | null; // First Input Delay (ms)
@@ -9,12 +15,39 @@ export interface CoreWebVitals {
   tbt: number | null; // Total Blocking Time (ms)
 }
 
+export type FieldCategory = 'FAST' | 'AVERAGE' | 'SLOW';
+
+export interface FieldMetric {
+  p75: number; // ms, or unitless for CLS
+  category: FieldCategory;
+  distribution: { fast: number; average: number; slow: number }; // proportions, 0-1
+}
+
+export interface FieldExperience {
+  overallCategory: FieldCategory | null;
+  metrics: Partial<Record<keyof CoreWebVitals, FieldMetric>>;
+}
+
+// Chrome UX Report data for real users over the last 28 days
+export interface FieldData {
+  page: FieldExperience | null; // null when CrUX only has origin-level data
+  origin: FieldExperience | null;
+}
+
 export interface ResourceItem {
   url: string;
   type: 'script' | 'stylesheet' | 'image' | 'font' | 'document' | 'other';
-  transferSize: number; // bytes
+  transferSize: number; // bytes over the network, compressed
   startTime: number; // ms
   duration: number; // ms
+  // From the network-requests audit; missing in results saved before they were kept
+  resourceSize?: number; // bytes after decompression
+  mimeType?: string;
+  statusCode?: number;
+  protocol?: string; // e.g. h2, http/1.1
+  priority?: 'VeryHigh' | 'High' | 'Medium' | 'Low' | 'VeryLow';
+  cached?: boolean; // served from the browser cache
+  entity?: string; // owning company or product per Lighthouse, e.g. "Google Analytics"
 }
 
 export interface AuditItem {
@@ -24,7 +57,86 @@ export interface AuditItem {
   score: number | null;
   displayValue?: string;
   impact: 'high' | 'medium' | 'low';
-  savings?: string;
+  savings?: string; // overallSavingsMs and overallSavingsBytes, formatted
+  overallSavingsMs?: number;
+  overallSavingsBytes?: number;
+  category: LighthouseCategory;
+  details?: AuditDetails;
+}
+
+export type AuditValueType = 'url' | 'bytes' | 'ms' | 'numeric' | 'text';
+
+export interface AuditDetailsHeading {
+  key: string;
+  label: string;
+  valueType: AuditValueType;
+}
+
+// The table of offending URLs or elements behind an audit, flattened to plain values
+export interface AuditDetails {
+  headings: AuditDetailsHeading[];
+  items: Record<string, string | number | null>[];
+  totalItems: number; // only the first 100 items are kept
+}
+
+// One vendor from the third-party-summary audit; Lighthouse leaves the page's own entity out
+export interface ThirdPartyEntity {
+  name: string;
+  transferSize: number; // bytes
+  blockingTime: number; // ms of main-thread blocking
+  mainThreadTime: number; // ms
+  urls: { url: string; transferSize: number; blockingTime: number; mainThreadTime: number }[];
+}
+
+// A request in the critical request chain; children were discovered through it
+export interface RequestChainNode {
+  url: string;
+  startTime: number; // ms from the start of the first request
+  endTime: number;
+  transferSize: number;
+  children: RequestChainNode[];
+}
+
+export interface RenderBlockingItem {
+  url: string;
+  transferSize: number;
+  wastedMs: number; // how much earlier first paint could be without it
+}
+
+// Structured details of the critical-request-chains and render-blocking-resources audits
+export interface CriticalPath {
+  chains: RequestChainNode[];
+  longestChain: { duration: number; length: number; transferSize: number } | null;
+  renderBlocking: RenderBlockingItem[];
+  renderBlockingSavingsMs: number;
+}
+
+// Lighthouse's task groups in the mainthread-work-breakdown audit
+export type MainThreadCategory =
+  | 'scriptEvaluation'
+  | 'scriptParseCompile'
+  | 'styleLayout'
+  | 'paintCompositeRender'
+  | 'parseHTML'
+  | 'garbageCollection'
+  | 'other';
+
+export interface MainThreadBreakdown {
+  totalMs: number;
+  categories: { category: MainThreadCategory; duration: number }[]; // longest first
+}
+
+// CPU time one script cost during load, from the bootup-time audit
+export interface ScriptBootup {
+  url: string;
+  total: number; // ms of main-thread time
+  scripting: number; // ms evaluating
+  parseCompile: number; // ms parsing and compiling
+}
+
+export interface BootupTime {
+  totalMs: number; // scripting and parse/compile across all scripts
+  scripts: ScriptBootup[]; // most expensive first
 }
 
 export interface ScreenshotItem {
@@ -36,30 +148,187 @@ export interface ScreenshotItem {
 export interface SpeedTestResult {
   id: string;
   url: string;
+  strategy: Strategy;
   timestamp: number;
   score: number; // 0-100
   grade: string; // A-F
+  categoryScores: Partial<Record<LighthouseCategory, number>>; // 0-100, only fetched categories
   vitals: CoreWebVitals;
+  fieldData: FieldData;
   resources: ResourceItem[];
+  thirdParties?: ThirdPartyEntity[]; // missing in results saved before it was kept
+  criticalPath?: CriticalPath; // likewise
+  mainThread?: MainThreadBreakdown; // likewise
+  bootup?: BootupTime; // likewise
   audits: AuditItem[];
   screenshots: ScreenshotItem[];
   fetchTime: number; // how long the test took (ms)
   finalScreenshot?: string; // base64
+  runs?: RunAggregate; // set when this is the median of several runs
+}
+
+export interface MetricSpread {
+  min: number;
+  max: number;
+  stddev: number;
+}
+
+// Summary of a multi-run test, reported through its median run
+export interface RunAggregate {
+  runIds: string[]; // every run, in the order they ran; each is saved to history
+  scores: number[]; // one per run, in the same order
+  spread: Partial<Record<'score' | keyof CoreWebVitals, MetricSpread>>;
 }
 
 export interface HistoryEntry {
   id: string;
   url: string;
+  strategy: Strategy;
   timestamp: number;
   score: number;
   grade: string;
   vitals: CoreWebVitals;
   fetchTime: number;
+  runs?: RunAggregate;
+}
+
+export interface Monitor {
+  id: string;
+  url: string;
+  strategy: Strategy;
+  intervalMinutes: number;
+  paused: boolean;
+  createdAt: number;
+  lastRunAt: number | null;
+  nextRunAt: number;
+  lastScore: number | null;
+  lastError: string | null;
+}
+
+export type VitalRating = 'good' | 'needs-improvement' | 'poor';
+
+export type BudgetResourceKey = ResourceItem['type'] | 'total';
+
+// A vital limit is either a maximum value or the worst acceptable rating
+export type VitalBudget = number | Exclude<VitalRating, 'poor'>;
+
+export interface Budget {
+  id: string;
+  pattern: string; // URL with * wildcards, scheme optional
+  minScore?: number;
+  vitals: Partial<Record<keyof CoreWebVitals, VitalBudget>>;
+  resourceSizes: Partial<Record<BudgetResourceKey, number>>; // max transfer size in bytes
+}
+
+export interface BudgetViolation {
+  metric: string; // 'score', a vital key, or 'size:<resource key>'
+  label: string;
+  actual: number;
+  limit: number;
+  unit: 'score' | 'ms' | 'bytes' | '';
+}
+
+export interface BudgetResult {
+  budgetId: string;
+  pattern: string;
+  passed: boolean;
+  checks: number;
+  violations: BudgetViolation[];
+}
+
+export type AlertCondition =
+  | { type: 'score-drop'; points: number } // score fell by more than this since the previous run
+  | { type: 'rating'; metric: keyof CoreWebVitals; rating: Exclude<VitalRating, 'good'> }; // rating worsened to at least this
+
+export type WebhookFormat = 'json' | 'slack';
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  pattern: string; // URL with * wildcards, as in budgets
+  condition: AlertCondition;
+  webhookUrl: string;
+  format: WebhookFormat;
+  enabled: boolean;
+  createdAt: number;
+}
+
+export interface Alert {
+  ruleId: string;
+  ruleName: string;
+  url: string;
+  strategy: Strategy;
+  message: string;
+  metric: 'score' | keyof CoreWebVitals;
+  value: number;
+  previousValue: number | null;
+  resultId: string;
+  triggeredAt: number;
+}
+
+export interface AlertDelivery {
+  id: string;
+  ruleId: string;
+  webhookUrl: string;
+  format: WebhookFormat;
+  alert: Alert;
+  status: 'delivered' | 'failed';
+  attempts: number;
+  statusCode: number | null; // of the last attempt; null when no response arrived
+  error: string | null;
+  deliveredAt: number; // time of the last attempt
+}
+
+export interface HistoryQuery {
+  url?: string;
+  strategy?: Strategy;
+  page?: number; // 1-based
+  pageSize?: number;
+}
+
+export interface HistoryPage {
+  entries: HistoryEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface Snapshot {
+  id: string;
+  result: SpeedTestResult;
+  firstPartyDomains?: string[]; // the creator's, so every viewer sees the same third-party split
+  createdAt: number;
+  expiresAt: number | null;
+}
+
+// What the creator of a snapshot keeps so it can be deleted later
+export interface SharedSnapshot {
+  id: string;
+  url: string;
+  deleteToken: string;
+  expiresAt: number | null;
 }
 
 export type TestStatus = 'idle' | 'loading' | 'success' | 'error';
 
+export type BatchStatus = 'queued' | 'running' | 'retrying' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchItem {
+  url: string;
+  status: BatchStatus;
+  attempts: number;
+  result: SpeedTestResult | null;
+  error: string | null;
+}
+
+export interface ComparisonSite {
+  url: string;
+  result: SpeedTestResult | null;
+  loading: boolean;
+  error: string;
+}
+
 export interface ComparisonState {
-  left: SpeedTestResult | null;
-  right: SpeedTestResult | null;
+  strategy: Strategy;
+  sites: ComparisonSite[]; // 2 to 6, in column order
 }